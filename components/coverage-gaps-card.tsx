@@ -0,0 +1,149 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { CoverageGapKind, RawEntry, TaxonomyTree, findCoverageGaps, formatLastEntry } from "@/lib/csv-data"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { CircleSlash } from "lucide-react"
+
+const STALE_OPTIONS = [30, 60, 90, 180, 365]
+
+const KIND_LABELS: Record<CoverageGapKind, string> = {
+    empty: "No articles",
+    stale: "Stale",
+    drop: "Cadence drop"
+}
+
+interface CoverageGapsCardProps {
+    categories: RawEntry[]
+    geos: RawEntry[]
+    taxonomy: TaxonomyTree
+    windowStart: Date
+    windowEnd: Date
+    referenceDate: Date
+}
+
+export function CoverageGapsCard({ categories, geos, taxonomy, windowStart, windowEnd, referenceDate }: CoverageGapsCardProps) {
+    const [taxonomyType, setTaxonomyType] = useState<"category" | "geo">("category")
+    const [staleDays, setStaleDays] = useState(90)
+    const [kind, setKind] = useState("all")
+
+    const gaps = useMemo(
+        () => findCoverageGaps(
+            taxonomyType === "category" ? categories : geos,
+            taxonomy,
+            taxonomyType,
+            windowStart,
+            windowEnd,
+            { staleDays }
+        ),
+        [categories, geos, taxonomy, taxonomyType, windowStart, windowEnd, staleDays]
+    )
+
+    const counts = useMemo(() => {
+        const result: Record<CoverageGapKind, number> = { empty: 0, stale: 0, drop: 0 }
+        for (const gap of gaps) {
+            for (const k of gap.kinds) result[k]++
+        }
+        return result
+    }, [gaps])
+
+    const visible = kind === "all" ? gaps : gaps.filter((gap) => gap.kinds.includes(kind as CoverageGapKind))
+
+    return (
+        <Card>
+            <CardHeader className="pb-3">
+                <CardTitle className="flex flex-wrap items-center gap-2 text-lg">
+                    <CircleSlash className="h-5 w-5 text-muted-foreground" />
+                    Coverage Gaps
+                    <Badge variant="secondary">{gaps.length} nodes</Badge>
+                    <div className="ml-auto flex flex-wrap items-center gap-2">
+                        <Select value={taxonomyType} onValueChange={(value) => setTaxonomyType(value as "category" | "geo")}>
+                            <SelectTrigger className="w-[140px]">
+                                <SelectValue placeholder="Taxonomy" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="category">Categories</SelectItem>
+                                <SelectItem value="geo">Geos</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        <Select value={String(staleDays)} onValueChange={(value) => setStaleDays(Number(value))}>
+                            <SelectTrigger className="w-[170px]">
+                                <SelectValue placeholder="Stale after" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {STALE_OPTIONS.map((days) => (
+                                    <SelectItem key={days} value={String(days)}>Stale after {days} days</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <Tabs value={kind} onValueChange={setKind}>
+                    <TabsList>
+                        <TabsTrigger value="all">All ({gaps.length})</TabsTrigger>
+                        {(Object.keys(KIND_LABELS) as CoverageGapKind[]).map((k) => (
+                            <TabsTrigger key={k} value={k}>{KIND_LABELS[k]} ({counts[k]})</TabsTrigger>
+                        ))}
+                    </TabsList>
+                </Tabs>
+
+                {visible.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-4 text-center">
+                        Every taxonomy node is covered in this period.
+                    </p>
+                ) : (
+                    <div className="max-h-[400px] overflow-auto rounded-md border">
+                        <Table>
+                            <TableHeader className="sticky top-0 bg-muted">
+                                <TableRow>
+                                    <TableHead className="font-semibold">Node</TableHead>
+                                    <TableHead className="font-semibold">Issues</TableHead>
+                                    <TableHead className="text-right font-semibold whitespace-nowrap">In period</TableHead>
+                                    <TableHead className="font-semibold whitespace-nowrap">Last entry</TableHead>
+                                    <TableHead className="text-right font-semibold whitespace-nowrap">Per week</TableHead>
+                                    <TableHead className="text-right font-semibold whitespace-nowrap">Before / week</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {visible.map((gap) => (
+                                    <TableRow key={gap.node.id} className="hover:bg-muted/50">
+                                        <TableCell className="font-medium p-2 max-w-[360px] truncate" title={gap.node.path}>
+                                            {gap.node.path}
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex flex-wrap gap-1">
+                                                {gap.kinds.map((k) => (
+                                                    <Badge key={k} variant={k === "empty" ? "destructive" : "outline"}>
+                                                        {KIND_LABELS[k]}
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <Badge variant="outline">{gap.windowCount}</Badge>
+                                        </TableCell>
+                                        <TableCell className="text-muted-foreground whitespace-nowrap">
+                                            {gap.lastEntryAt === null ? "Never" : formatLastEntry(gap.lastEntryAt, referenceDate)}
+                                        </TableCell>
+                                        <TableCell className="text-right font-mono text-xs text-muted-foreground">
+                                            {gap.windowRate.toFixed(2)}
+                                        </TableCell>
+                                        <TableCell className="text-right font-mono text-xs text-muted-foreground">
+                                            {gap.historyRate === null ? "N/A" : gap.historyRate.toFixed(2)}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
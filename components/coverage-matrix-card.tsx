@@ -0,0 +1,175 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { RawEntry, TaxonomyTree, buildCrossTab, rollUpEntries } from "@/lib/csv-data"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Grid3x3 } from "lucide-react"
+
+const MAX_ROWS = 25
+const MAX_COLUMNS = 15
+
+type CellMetric = "count" | "row" | "column"
+
+interface CoverageMatrixCardProps {
+    categories: RawEntry[]
+    geos: RawEntry[]
+    taxonomy: TaxonomyTree | null
+}
+
+function maxDepth(taxonomy: TaxonomyTree | null, type: "category" | "geo"): number {
+    let depth = 0
+    for (const node of taxonomy?.nodes.values() || []) {
+        if (node.taxonomy === type) depth = Math.max(depth, node.depth)
+    }
+    return depth
+}
+
+function DepthSelect({
+    label,
+    value,
+    onChange,
+    levels
+}: {
+    label: string
+    value: number
+    onChange: (value: number) => void
+    levels: number
+}) {
+    return (
+        <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+            <SelectTrigger className="w-[170px]">
+                <SelectValue placeholder={label} />
+            </SelectTrigger>
+            <SelectContent>
+                {Array.from({ length: levels + 1 }, (_, depth) => (
+                    <SelectItem key={depth} value={String(depth)}>
+                        {label}: {depth === 0 ? "roots" : `level ${depth}`}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    )
+}
+
+export function CoverageMatrixCard({ categories, geos, taxonomy }: CoverageMatrixCardProps) {
+    const [categoryDepth, setCategoryDepth] = useState(0)
+    const [geoDepth, setGeoDepth] = useState(0)
+    const [metric, setMetric] = useState<CellMetric>("count")
+
+    const categoryLevels = useMemo(() => maxDepth(taxonomy, "category"), [taxonomy])
+    const geoLevels = useMemo(() => maxDepth(taxonomy, "geo"), [taxonomy])
+
+    const crossTab = useMemo(() => {
+        const rowEntries = taxonomy ? rollUpEntries(categories, taxonomy, categoryDepth) : categories
+        const columnEntries = taxonomy ? rollUpEntries(geos, taxonomy, geoDepth) : geos
+        return buildCrossTab(rowEntries, columnEntries)
+    }, [categories, geos, taxonomy, categoryDepth, geoDepth])
+
+    const rows = crossTab.rows.slice(0, MAX_ROWS)
+    const columns = crossTab.columns.slice(0, MAX_COLUMNS)
+
+    // Shares are taken of the full row or column total, including values beyond the visible limits
+    const cellValue = (row: { name: string; total: number }, column: { name: string; total: number }) => {
+        const count = crossTab.counts.get(row.name)?.get(column.name) || 0
+        if (metric === "row") return row.total > 0 ? count / row.total : 0
+        if (metric === "column") return column.total > 0 ? count / column.total : 0
+        return count
+    }
+    const max = Math.max(0, ...rows.flatMap((row) => columns.map((column) => cellValue(row, column))))
+    const format = (value: number) => metric === "count" ? String(value) : `${Math.round(value * 100)}%`
+
+    return (
+        <Card>
+            <CardHeader className="pb-3">
+                <CardTitle className="flex flex-wrap items-center gap-2 text-lg">
+                    <Grid3x3 className="h-5 w-5 text-muted-foreground" />
+                    Category × Geo Coverage
+                    <Badge variant="secondary">{crossTab.total.toLocaleString()} articles</Badge>
+                    <div className="ml-auto flex flex-wrap items-center gap-2">
+                        {taxonomy && (
+                            <>
+                                <DepthSelect label="Categories" value={categoryDepth} onChange={setCategoryDepth} levels={categoryLevels} />
+                                <DepthSelect label="Geos" value={geoDepth} onChange={setGeoDepth} levels={geoLevels} />
+                            </>
+                        )}
+                        <Select value={metric} onValueChange={(value) => setMetric(value as CellMetric)}>
+                            <SelectTrigger className="w-[140px]">
+                                <SelectValue placeholder="Cell values" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="count">Articles</SelectItem>
+                                <SelectItem value="row">Row %</SelectItem>
+                                <SelectItem value="column">Column %</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                {rows.length === 0 || columns.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-4 text-center">
+                        No article in this period carries both a category and a geo.
+                    </p>
+                ) : (
+                    <div className="max-h-[600px] overflow-auto rounded-md border">
+                        <table className="w-full border-separate border-spacing-[2px] text-xs">
+                            <thead className="sticky top-0 z-10 bg-background">
+                                <tr>
+                                    <th className="min-w-[180px]" />
+                                    {columns.map((column) => (
+                                        <th
+                                            key={column.name}
+                                            className="h-28 align-bottom font-medium text-muted-foreground"
+                                            title={`${column.name} · ${column.total} articles`}
+                                        >
+                                            <div className="mx-auto w-4 truncate [writing-mode:vertical-rl] rotate-180 text-left">
+                                                {column.name}
+                                            </div>
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map((row) => (
+                                    <tr key={row.name}>
+                                        <th
+                                            className="max-w-[220px] truncate pr-2 text-right font-medium text-muted-foreground"
+                                            title={`${row.name} · ${row.total} articles`}
+                                        >
+                                            {row.name}
+                                        </th>
+                                        {columns.map((column) => {
+                                            const value = cellValue(row, column)
+                                            return (
+                                                <td
+                                                    key={column.name}
+                                                    className="relative h-7 min-w-[36px] rounded-sm bg-muted text-center font-mono"
+                                                    title={`${row.name} × ${column.name}: ${crossTab.counts.get(row.name)?.get(column.name) || 0} articles`}
+                                                >
+                                                    <div
+                                                        className="absolute inset-0 rounded-sm bg-indigo-600"
+                                                        style={{ opacity: max > 0 ? value / max : 0 }}
+                                                    />
+                                                    <span className={`relative ${max > 0 && value / max > 0.5 ? "text-white" : "text-muted-foreground"}`}>
+                                                        {value > 0 ? format(value) : ""}
+                                                    </span>
+                                                </td>
+                                            )
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                {(crossTab.rows.length > MAX_ROWS || crossTab.columns.length > MAX_COLUMNS) && (
+                    <p className="mt-3 text-xs text-muted-foreground">
+                        Showing the {Math.min(MAX_ROWS, crossTab.rows.length)} largest categories and {Math.min(MAX_COLUMNS, crossTab.columns.length)} largest geos.
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -5,20 +5,37 @@ import { useMemo, useState, useRef, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
-import { processCSVData, calculateStats, getTimelineDistribution, parseTaxonomyCSV, buildHierarchicalStats, getChildStats, aggregateTimelineData, type StatEntry, type TimelineEntry, type TaxonomyTree, type HierarchicalStatEntry } from "@/lib/csv-data"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { processCSVData, calculateStats, calculateTrending, calculateFormatMix, getTemplatesById, comparePeriods, getSubtreeNames, formatInterval, formatLastEntry, GAP_BUCKETS, RECENT_WINDOW_DAYS, getComparisonWindow, getStatKey, countByBucket, rollUpEntries, type BucketCounts, getTimelineDistribution, parseTaxonomyCSV, buildHierarchicalStats, getChildStats, aggregateTimelineData, type Article, type StatEntry, type TimelineEntry, type TaxonomyTree, type HierarchicalStatEntry, type ComparisonMode, type PeriodComparison, type RawEntry, type FormatMix } from "@/lib/csv-data"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SOURCE_TIME_ZONE, addZonedMonths, endOfZonedDay, startOfZonedDay, type Granularity } from "@/lib/timezone"
 import { RecentArticlesPanel } from "@/components/recent-articles-panel"
+import { DataQualityCard } from "@/components/data-quality-card"
+import { DatasetUploadZone, type DatasetUpload } from "@/components/dataset-upload"
+import { TrendingTagsCard } from "@/components/trending-tags-card"
+import { PublishingHeatmapCard } from "@/components/publishing-heatmap-card"
+import { CoverageMatrixCard } from "@/components/coverage-matrix-card"
+import { CoverageGapsCard } from "@/components/coverage-gaps-card"
+import { VolumeChart } from "@/components/volume-chart"
+import { DateRangePicker, type DateRangeValue } from "@/components/date-range-picker"
+import { ReferenceDatePicker, type ReferenceMode } from "@/components/reference-date-picker"
+import { ArrowDown, ArrowUp, ArrowUpDown, Minus, X } from "lucide-react"
+
+const TRENDING_BASELINE_WEEKS = 52
 
 function TimelineChart({
   timelineData,
   stats,
   minDate,
-  maxDate
+  maxDate,
+  onBrush
 }: {
   timelineData: Map<string, TimelineEntry[]>;
   stats: StatEntry[];
   minDate: Date;
   maxDate: Date;
+  onBrush?: (from: Date, to: Date) => void;
 }) {
   const topCount = 50
   const topNames = useMemo(() => {
@@ -54,6 +71,7 @@ function TimelineChart({
           paddingRight={paddingRight}
           labels={years}
           stats={stats}
+          onBrush={onBrush}
         />
       </div>
     </div>
@@ -70,9 +88,11 @@ function ResponsiveSVG({
   rowHeight,
   paddingRight,
   labels = [],
-  stats = []
+  stats = [],
+  onBrush
 }: any) {
   const [containerWidth, setContainerWidth] = useState(0)
+  const [brush, setBrush] = useState<{ start: number; end: number } | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -96,10 +116,50 @@ function ResponsiveSVG({
     return labelWidth + ratio * (containerWidth - labelWidth - paddingRight)
   }
 
+  const getDate = (x: number) => {
+    const plotWidth = containerWidth - labelWidth - paddingRight
+    const ratio = Math.min(1, Math.max(0, (x - labelWidth) / plotWidth))
+    return new Date(minDate.getTime() + ratio * (maxDate.getTime() - minDate.getTime()))
+  }
+
+  const pointerX = (e: React.MouseEvent<SVGSVGElement>) =>
+    e.clientX - e.currentTarget.getBoundingClientRect().left
+
+  // Dragging across the plot area selects a date range to zoom into
+  const handleMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onBrush) return
+    const x = pointerX(e)
+    if (x < labelWidth) return
+    e.preventDefault()
+    setBrush({ start: x, end: x })
+  }
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!brush) return
+    const x = Math.min(containerWidth - paddingRight, Math.max(labelWidth, pointerX(e)))
+    setBrush({ ...brush, end: x })
+  }
+
+  const handleMouseUp = () => {
+    if (!brush) return
+    setBrush(null)
+    const from = Math.min(brush.start, brush.end)
+    const to = Math.max(brush.start, brush.end)
+    if (to - from > 4) onBrush(getDate(from), getDate(to))
+  }
+
   return (
     <div ref={containerRef} className="w-full h-full">
       {containerWidth > 0 && (
-        <svg width={containerWidth} height={height}>
+        <svg
+          width={containerWidth}
+          height={height}
+          className={onBrush ? "cursor-crosshair select-none" : undefined}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => setBrush(null)}
+        >
           {/* Labels (Years) */}
           {labels.map((yearDate: Date) => {
             const x = getX(yearDate)
@@ -165,12 +225,214 @@ function ResponsiveSVG({
               </g>
             )
           })}
+
+          {brush && (
+            <rect
+              x={Math.min(brush.start, brush.end)} y={40}
+              width={Math.abs(brush.end - brush.start)} height={height - 40}
+              fill="#4f46e5" fillOpacity={0.1}
+              stroke="#4f46e5" strokeOpacity={0.4}
+              pointerEvents="none"
+            />
+          )}
         </svg>
       )}
     </div>
   )
 }
 
+const CONTEXT_COLORS: Record<string, string> = {
+  ops: "bg-indigo-500",
+  cult: "bg-amber-500"
+}
+
+// Templates keep their color across rows, ranked by overall volume
+const FORMAT_COLORS = [
+  "bg-indigo-500", "bg-amber-500", "bg-emerald-500", "bg-rose-500",
+  "bg-sky-500", "bg-violet-500", "bg-lime-500", "bg-orange-500"
+]
+
+function FormatMixBar({ mix, colors }: { mix?: FormatMix; colors: Map<string, string> }) {
+  const entries = Object.entries(mix?.counts || {}).sort((a, b) => b[1] - a[1])
+  const total = entries.reduce((sum, [, count]) => sum + count, 0)
+  if (total === 0) return <span className="text-muted-foreground">N/A</span>
+
+  return (
+    <div
+      className="flex h-2 w-24 overflow-hidden rounded-full bg-muted"
+      title={entries.map(([template, count]) => `${template}: ${count} (${Math.round((count / total) * 100)}%)`).join("\n")}
+    >
+      {entries.map(([template, count]) => (
+        <div
+          key={template}
+          className={colors.get(template) || "bg-zinc-400"}
+          style={{ width: `${(count / total) * 100}%` }}
+        />
+      ))}
+    </div>
+  )
+}
+
+function ContextSplitBar({ counts }: { counts?: Record<string, number> }) {
+  const order = Object.keys(CONTEXT_COLORS)
+  const rank = (context: string) => order.includes(context) ? order.indexOf(context) : order.length
+  const entries = Object.entries(counts || {}).sort((a, b) => rank(a[0]) - rank(b[0]) || a[0].localeCompare(b[0]))
+  const total = entries.reduce((sum, [, count]) => sum + count, 0)
+  if (total === 0) return <span className="text-muted-foreground">N/A</span>
+
+  return (
+    <div className="flex items-center gap-2 min-w-[140px]">
+      <div className="flex h-2 w-20 overflow-hidden rounded-full bg-muted">
+        {entries.map(([context, count]) => (
+          <div
+            key={context}
+            className={CONTEXT_COLORS[context] || "bg-zinc-400"}
+            style={{ width: `${(count / total) * 100}%` }}
+            title={`${context}: ${count}`}
+          />
+        ))}
+      </div>
+      <span className="font-mono text-xs text-muted-foreground whitespace-nowrap">
+        {entries.map(([context, count]) => `${context} ${Math.round((count / total) * 100)}%`).join(" · ")}
+      </span>
+    </div>
+  )
+}
+
+type Dimension = "categories" | "geos" | "templates" | "authors" | "tags"
+
+const DIMENSION_LABELS: Record<Dimension, string> = {
+  categories: "Category",
+  geos: "Geo",
+  templates: "Template",
+  authors: "Author",
+  tags: "Tag"
+}
+
+interface CrossFilter {
+  key: string // Dimension and row key, unique per selected row
+  dimension: Dimension
+  label: string
+  values: string[] // Export values matched, a taxonomy node covers its descendants
+}
+
+// Sorts rows among their siblings so taxonomy children stay under their parent
+function sortRows<T extends StatEntry>(rows: T[], compare: (a: T, b: T) => number): T[] {
+  const siblings = new Map<string | null, T[]>()
+  for (const row of rows) {
+    const parentId = (row as unknown as HierarchicalStatEntry).parentId ?? null
+    if (!siblings.has(parentId)) siblings.set(parentId, [])
+    siblings.get(parentId)!.push(row)
+  }
+
+  const result: T[] = []
+  const visit = (parentId: string | null) => {
+    for (const row of [...(siblings.get(parentId) || [])].sort(compare)) {
+      result.push(row)
+      const id = (row as unknown as HierarchicalStatEntry).id
+      if (id !== undefined) visit(id)
+    }
+  }
+  visit(null)
+  return result
+}
+
+// Keeps rows whose name matches the query, together with their taxonomy ancestors
+function searchRows<T extends StatEntry>(rows: T[], query: string): T[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return rows
+
+  const byId = new Map<string, T>()
+  for (const row of rows) {
+    const id = (row as unknown as HierarchicalStatEntry).id
+    if (id !== undefined) byId.set(id, row)
+  }
+
+  const visible = new Set<T>()
+  for (const row of rows) {
+    if (!row.name.toLowerCase().includes(needle)) continue
+    let current: T | undefined = row
+    while (current && !visible.has(current)) {
+      visible.add(current)
+      const parentId: string | null = (current as unknown as HierarchicalStatEntry).parentId
+      current = parentId ? byId.get(parentId) : undefined
+    }
+  }
+  return rows.filter((row) => visible.has(row))
+}
+
+type SortKey = "name" | "count" | "lastEntry" | "frequency" | "longestGap" | "recent" | "diversity" | "delta"
+
+interface SortState {
+  key: SortKey
+  direction: "asc" | "desc"
+}
+
+function SortableHead({
+  label,
+  sortKey,
+  sort,
+  onSort,
+  className = ""
+}: {
+  label: string
+  sortKey: SortKey
+  sort: SortState | null
+  onSort: (key: SortKey) => void
+  className?: string
+}) {
+  const active = sort?.key === sortKey
+  const Icon = !active ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown
+
+  return (
+    <TableHead className={`font-semibold whitespace-nowrap ${className}`}>
+      <button
+        onClick={() => onSort(sortKey)}
+        className={`inline-flex items-center gap-1 ${active ? "text-foreground" : ""}`}
+      >
+        {label}
+        <Icon className="h-3 w-3" />
+      </button>
+    </TableHead>
+  )
+}
+
+function GapSparkline({ counts }: { counts: number[] }) {
+  const max = Math.max(0, ...counts)
+  if (max === 0) return <span className="text-muted-foreground">N/A</span>
+
+  return (
+    <div
+      className="flex h-4 w-16 items-end gap-px"
+      title={counts.map((count, i) => `${GAP_BUCKETS[i].label}: ${count}`).join("\n")}
+    >
+      {counts.map((count, i) => (
+        <div
+          key={GAP_BUCKETS[i].label}
+          className="flex-1 rounded-sm bg-indigo-500"
+          style={{ height: `${Math.max(count > 0 ? 10 : 0, (count / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  )
+}
+
+function DeltaCell({ comparison }: { comparison?: PeriodComparison }) {
+  if (!comparison) return <span className="text-muted-foreground">N/A</span>
+  const { delta, change } = comparison
+  const color = delta > 0 ? "text-emerald-600" : delta < 0 ? "text-rose-600" : "text-muted-foreground"
+  const Icon = delta > 0 ? ArrowUp : delta < 0 ? ArrowDown : Minus
+
+  return (
+    <span className={`inline-flex items-center justify-end gap-1 font-mono text-xs whitespace-nowrap ${color}`}>
+      <Icon className="h-3 w-3" />
+      {delta > 0 ? `+${delta}` : delta}
+      <span className="text-muted-foreground">
+        ({change === null ? "new" : `${change > 0 ? "+" : ""}${Math.round(change * 100)}%`})
+      </span>
+    </span>
+  )
+}
 
 function StatsTable({
   title,
@@ -181,7 +443,15 @@ function StatsTable({
   maxDate,
   onToggleExpand,
   expandedIds,
-  totalArticles = 0
+  totalArticles = 0,
+  distribution,
+  granularity = "week",
+  onRangeSelect,
+  comparison,
+  referenceDate,
+  onSelect,
+  selectedKeys,
+  formatMix
 }: {
   title: string
   stats: StatEntry[]
@@ -192,15 +462,73 @@ function StatsTable({
   onToggleExpand?: (id: string) => void
   expandedIds?: Set<string>
   totalArticles?: number
+  distribution?: BucketCounts
+  granularity?: Granularity
+  onRangeSelect?: (from: Date, to: Date) => void
+  comparison?: { label: string; periods: Map<string, PeriodComparison> }
+  referenceDate: Date
+  onSelect?: (stat: StatEntry) => void
+  selectedKeys?: Set<string>
+  formatMix?: { mixes: Map<string, FormatMix>; colors: Map<string, string> }
 }) {
+  const [sort, setSort] = useState<SortState | null>(null)
+  const [query, setQuery] = useState("")
+
+  const rows = useMemo(() => {
+    const matching = searchRows(stats, query)
+    if (!sort || (sort.key === "delta" && !comparison)) return matching
+
+    // Rows without a value (a single entry has no interval) sort last either way
+    const value = (stat: StatEntry): number | string | null => {
+      switch (sort.key) {
+        case "name": return stat.name
+        case "count": return stat.count
+        case "lastEntry": return stat.lastEntryAt
+        case "frequency": return stat.medianIntervalHours
+        case "longestGap": return stat.longestGapHours
+        case "recent": return stat.recentCadenceHours
+        case "diversity": return formatMix?.mixes.get(getStatKey(stat))?.diversity ?? null
+        case "delta": return comparison?.periods.get(getStatKey(stat))?.delta ?? 0
+      }
+    }
+    const sign = sort.direction === "asc" ? 1 : -1
+    return sortRows(matching, (a, b) => {
+      const va = value(a)
+      const vb = value(b)
+      if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1
+      const order = typeof va === "string" ? va.localeCompare(vb as string) : va - (vb as number)
+      return sign * order || b.count - a.count
+    })
+  }, [stats, query, sort, comparison, formatMix])
+
+  // Text columns start ascending, numbers descending; intervals start with the most frequent
+  const handleSort = (key: SortKey) => {
+    if (sort?.key === key) {
+      setSort({ key, direction: sort.direction === "asc" ? "desc" : "asc" })
+    } else {
+      setSort({ key, direction: key === "name" || key === "frequency" || key === "recent" ? "asc" : "desc" })
+    }
+  }
+  const showPrimary = stats.some((stat) => stat.primaryCount !== undefined)
+  const showContexts = stats.some((stat) => stat.contextCounts && Object.keys(stat.contextCounts).length > 0)
+
   return (
     <Card>
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center gap-2 text-lg">
           {icon}
           {title}
-          <Badge variant="secondary" className="ml-auto">
-            {stats.length} groups
+          {comparison && (
+            <span className="ml-auto text-xs font-normal text-muted-foreground">{comparison.label}</span>
+          )}
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search..."
+            className={`h-8 w-[180px] text-sm font-normal ${comparison ? "" : "ml-auto"}`}
+          />
+          <Badge variant="secondary">
+            {query ? `${rows.length} / ${stats.length}` : stats.length} groups
           </Badge>
         </CardTitle>
       </CardHeader>
@@ -209,15 +537,32 @@ function StatsTable({
           <Table>
             <TableHeader className="sticky top-0 bg-muted">
               <TableRow>
-                <TableHead className="font-semibold">Name</TableHead>
-                <TableHead className="text-right font-semibold">Count</TableHead>
-                <TableHead className="text-right font-semibold whitespace-nowrap">% Relative</TableHead>
-                <TableHead className="font-semibold">Last Entry</TableHead>
-                <TableHead className="font-semibold">Frequency</TableHead>
+                <SortableHead label="Name" sortKey="name" sort={sort} onSort={handleSort} />
+                <SortableHead label="Count" sortKey="count" sort={sort} onSort={handleSort} className="text-right" />
+                {comparison && (
+                  <>
+                    <TableHead className="text-right font-semibold">Previous</TableHead>
+                    <SortableHead label="Change" sortKey="delta" sort={sort} onSort={handleSort} className="text-right" />
+                  </>
+                )}
+                <SortableHead label="% Relative" sortKey="count" sort={sort} onSort={handleSort} className="text-right" />
+                <SortableHead label="Last Entry" sortKey="lastEntry" sort={sort} onSort={handleSort} />
+                <SortableHead label="Frequency" sortKey="frequency" sort={sort} onSort={handleSort} />
+                <SortableHead label="Longest gap" sortKey="longestGap" sort={sort} onSort={handleSort} />
+                <SortableHead label={`Last ${RECENT_WINDOW_DAYS} days`} sortKey="recent" sort={sort} onSort={handleSort} />
+                <TableHead className="font-semibold">Gaps</TableHead>
+                {showPrimary && <TableHead className="text-right font-semibold">Primary</TableHead>}
+                {showContexts && <TableHead className="font-semibold whitespace-nowrap">Context split</TableHead>}
+                {formatMix && (
+                  <>
+                    <TableHead className="font-semibold whitespace-nowrap">Format mix</TableHead>
+                    <SortableHead label="Diversity" sortKey="diversity" sort={sort} onSort={handleSort} className="text-right" />
+                  </>
+                )}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {stats.map((stat) => {
+              {rows.map((stat) => {
                 const hierarchical = stat as unknown as HierarchicalStatEntry
                 const isHierarchical = typeof hierarchical.depth !== 'undefined'
                 const paddingLeft = isHierarchical ? `${hierarchical.depth * 1.5}rem` : '0.5rem'
@@ -231,13 +576,18 @@ function StatsTable({
                 return (
                   <TableRow
                     key={isHierarchical ? hierarchical.id : stat.name}
-                    className="hover:bg-muted/50"
+                    onClick={() => onSelect?.(stat)}
+                    data-state={selectedKeys?.has(getStatKey(stat)) ? "selected" : undefined}
+                    className={`hover:bg-muted/50 ${onSelect ? "cursor-pointer" : ""}`}
                   >
                     <TableCell className="font-medium p-2">
                       <div className="flex items-center gap-2" style={{ paddingLeft }}>
                         {hasChildren ? (
                           <button
-                            onClick={() => onToggleExpand?.(hierarchical.id)}
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              onToggleExpand?.(hierarchical.id)
+                            }}
                             className="p-0.5 hover:bg-muted rounded text-muted-foreground"
                           >
                             {isExpanded ? (
@@ -259,11 +609,69 @@ function StatsTable({
                     <TableCell className="text-right">
                       <Badge variant="outline">{stat.count}</Badge>
                     </TableCell>
+                    {comparison && (
+                      <>
+                        <TableCell className="text-right text-muted-foreground font-mono text-xs">
+                          {comparison.periods.get(getStatKey(stat))?.previousCount ?? 0}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <DeltaCell comparison={comparison.periods.get(getStatKey(stat))} />
+                        </TableCell>
+                      </>
+                    )}
                     <TableCell className="text-right text-muted-foreground font-mono text-xs">
                       {percentage}
                     </TableCell>
-                    <TableCell className="text-muted-foreground">{stat.lastEntry}</TableCell>
-                    <TableCell className="text-muted-foreground">{stat.frequency}</TableCell>
+                    <TableCell
+                      className="text-muted-foreground"
+                      title={stat.lastEntryAt !== null ? new Date(stat.lastEntryAt).toLocaleString() : undefined}
+                    >
+                      {formatLastEntry(stat.lastEntryAt, referenceDate)}
+                    </TableCell>
+                    <TableCell
+                      className="text-muted-foreground whitespace-nowrap"
+                      title={stat.meanIntervalHours !== null
+                        ? `Median gap · mean ${formatInterval(stat.meanIntervalHours)} over ${Math.round(stat.activeSpanDays)} days`
+                        : undefined}
+                    >
+                      {formatInterval(stat.medianIntervalHours)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {formatInterval(stat.longestGapHours)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {stat.recentCadenceHours === null
+                        ? "None"
+                        : `${stat.recentCount} · every ${formatInterval(stat.recentCadenceHours)}`}
+                    </TableCell>
+                    <TableCell>
+                      <GapSparkline counts={stat.gapDistribution} />
+                    </TableCell>
+                    {showPrimary && (
+                      <TableCell className="text-right text-muted-foreground font-mono text-xs">
+                        {stat.primaryCount !== undefined && stat.count > 0
+                          ? ((stat.primaryCount / stat.count) * 100).toFixed(0) + "%"
+                          : "N/A"}
+                      </TableCell>
+                    )}
+                    {showContexts && (
+                      <TableCell>
+                        <ContextSplitBar counts={stat.contextCounts} />
+                      </TableCell>
+                    )}
+                    {formatMix && (
+                      <>
+                        <TableCell>
+                          <FormatMixBar mix={formatMix.mixes.get(getStatKey(stat))} colors={formatMix.colors} />
+                        </TableCell>
+                        <TableCell
+                          className="text-right text-muted-foreground font-mono text-xs"
+                          title="Effective number of formats"
+                        >
+                          {formatMix.mixes.get(getStatKey(stat))?.diversity.toFixed(1) ?? "N/A"}
+                        </TableCell>
+                      </>
+                    )}
                   </TableRow>
                 )
               })}
@@ -271,17 +679,23 @@ function StatsTable({
           </Table>
         </div>
 
+        {distribution && <VolumeChart distribution={distribution} granularity={granularity} />}
+
         <div className="rounded-md border p-0 overflow-hidden">
           <div className="bg-muted/30 px-4 py-2 border-b">
             <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
               Timeline distribution (All articles)
             </span>
+            {onRangeSelect && (
+              <span className="ml-2 text-xs text-muted-foreground">Drag across the chart to zoom</span>
+            )}
           </div>
           <TimelineChart
             timelineData={timelineData}
             stats={stats}
             minDate={minDate}
             maxDate={maxDate}
+            onBrush={onRangeSelect}
           />
         </div>
       </CardContent>
@@ -313,8 +727,18 @@ function flattenHierarchy(
 export function CsvAnalysisDashboard() {
   const [data, setData] = useState<any>(null)
   const [taxonomy, setTaxonomy] = useState<any>(null)
+  const [csvText, setCsvText] = useState<string | null>(null)
+  const [sourceName, setSourceName] = useState("dataset.csv")
   const [loading, setLoading] = useState(true)
   const [timeRange, setTimeRange] = useState("2y")
+  const [customRange, setCustomRange] = useState<DateRangeValue | null>(null)
+  const [compareMode, setCompareMode] = useState("off")
+  const [crossFilters, setCrossFilters] = useState<CrossFilter[]>([])
+  const [referenceMode, setReferenceMode] = useState<ReferenceMode>("latest")
+  const [referenceDay, setReferenceDay] = useState<Date | null>(null)
+  const [contextFilter, setContextFilter] = useState("all")
+  const [attribution, setAttribution] = useState("all")
+  const [granularity, setGranularity] = useState<Granularity>("week")
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set())
   const [expandedGeos, setExpandedGeos] = useState<Set<string>>(new Set())
 
@@ -325,10 +749,11 @@ export function CsvAnalysisDashboard() {
           fetch("/dataset.csv"),
           parseTaxonomyCSV()
         ])
-        const csvText = await csvResponse.text()
-        const processed = processCSVData(csvText)
+        const text = await csvResponse.text()
+        const processed = processCSVData(text, taxonomyData)
         setData(processed)
         setTaxonomy(taxonomyData)
+        setCsvText(text)
       } catch (error) {
         console.error("Failed to load dataset:", error)
       } finally {
@@ -338,48 +763,102 @@ export function CsvAnalysisDashboard() {
     loadData()
   }, [])
 
+  // Dates are bucketed and picked in the zone the export was read in
+  const timeZone: string = data?.timeZone ?? SOURCE_TIME_ZONE
+
+  const datasetExtent = useMemo(() => {
+    if (!data || data.articles.length === 0) return null
+    const times = (data.articles as Article[]).map((article) => article.date.getTime())
+    return { from: new Date(Math.min(...times)), to: new Date(Math.max(...times)) }
+  }, [data])
+
+  const templatesById = useMemo(() => getTemplatesById(data ? data.articles : []), [data])
+
+  const templateColors = useMemo(() => {
+    const colors = new Map<string, string>()
+    if (!data) return colors
+    const templates = (data.templates as StatEntry[]).slice(0, FORMAT_COLORS.length)
+    templates.forEach((stat, i) => colors.set(stat.name, FORMAT_COLORS[i]))
+    return colors
+  }, [data])
+
+  // Relative presets and "last entry" times are measured from this instant
+  const referenceDate = useMemo(() => {
+    if (referenceMode === "date" && referenceDay) return referenceDay
+    if (referenceMode === "today" || !datasetExtent) return new Date()
+    return datasetExtent.to
+  }, [referenceMode, referenceDay, datasetExtent])
+
   const {
-    filteredCategories, filteredGeos, filteredTemplates, filteredArticles,
+    filteredCategories, filteredGeos, filteredTemplates, filteredAuthors, filteredTags, filteredArticles,
     totalArticles,
-    categoryTimeline, geoTimeline, templateTimeline,
+    categoryTimeline, geoTimeline, templateTimeline, authorTimeline, tagTimeline,
+    trendingTags, trendingBaselineAvailable,
+    filteredRawEntries, scopedRawEntries, matrixRawEntries, volumes, comparisons, formatMixes,
     minDate, maxDate, lastArticleDate
   } = useMemo(() => {
     if (!data) return {
-      filteredCategories: [], filteredGeos: [], filteredTemplates: [], filteredArticles: [],
+      filteredCategories: [], filteredGeos: [], filteredTemplates: [], filteredAuthors: [], filteredTags: [], filteredArticles: [],
       totalArticles: 0,
-      categoryTimeline: new Map(), geoTimeline: new Map(), templateTimeline: new Map(),
+      categoryTimeline: new Map(), geoTimeline: new Map(), templateTimeline: new Map(), authorTimeline: new Map(), tagTimeline: new Map(),
+      trendingTags: [], trendingBaselineAvailable: false,
+      filteredRawEntries: { categories: [], geos: [], templates: [] },
+      scopedRawEntries: { categories: [], geos: [] },
+      matrixRawEntries: { categories: [], geos: [] },
+      volumes: null,
+      comparisons: null,
+      formatMixes: null,
       minDate: new Date(), maxDate: new Date(), lastArticleDate: null
     }
 
-    const now = new Date()
+    const now = referenceDate
     let cutoffDate = new Date(0) // Default for 'all'
+    let endDate = referenceDate
     let limitCount = 0
 
-    if (timeRange.startsWith("last-")) {
+    if (timeRange === "custom" && customRange) {
+      cutoffDate = customRange.from
+      if (customRange.to < referenceDate) endDate = customRange.to
+    } else if (timeRange.startsWith("last-")) {
       limitCount = parseInt(timeRange.split("-")[1], 10)
     } else if (timeRange === "6m") {
-      cutoffDate = new Date(now)
-      cutoffDate.setMonth(now.getMonth() - 6)
+      cutoffDate = addZonedMonths(now, -6, timeZone)
     } else if (timeRange === "1y") {
-      cutoffDate = new Date(now)
-      cutoffDate.setFullYear(now.getFullYear() - 1)
+      cutoffDate = addZonedMonths(now, -12, timeZone)
     } else if (timeRange === "2y") {
-      cutoffDate = new Date(now)
-      cutoffDate.setFullYear(now.getFullYear() - 2)
+      cutoffDate = addZonedMonths(now, -24, timeZone)
     } else if (timeRange === "3y") {
-      cutoffDate = new Date(now)
-      cutoffDate.setFullYear(now.getFullYear() - 3)
+      cutoffDate = addZonedMonths(now, -36, timeZone)
     } else if (timeRange === "4y") {
-      cutoffDate = new Date(now)
-      cutoffDate.setFullYear(now.getFullYear() - 4)
+      cutoffDate = addZonedMonths(now, -48, timeZone)
     } else if (timeRange === "5y") {
-      cutoffDate = new Date(now)
-      cutoffDate.setFullYear(now.getFullYear() - 5)
+      cutoffDate = addZonedMonths(now, -60, timeZone)
+    }
+
+    // Nothing published after the reference date is visible
+    const matchesContext = (e: RawEntry) => e.date <= referenceDate && (contextFilter === "all" || e.context === contextFilter)
+
+    // Cross-filters keep the articles matching every selected row
+    let crossFilterIds: Set<string> | null = null
+    for (const filter of crossFilters) {
+      const values = new Set(filter.values)
+      const ids = new Set<string>()
+      for (const entry of data.rawEntries[filter.dimension] as RawEntry[]) {
+        if (values.has(entry.value) && (!crossFilterIds || crossFilterIds.has(entry.id))) ids.add(entry.id)
+      }
+      crossFilterIds = ids
     }
+    const matchesCrossFilter = (e: RawEntry) => !crossFilterIds || crossFilterIds.has(e.id)
 
-    let rawCats = data.rawEntries.categories
-    let rawGeos = data.rawEntries.geos
-    let rawTemplates = data.rawEntries.templates
+    // In primary mode an article only counts towards the taxonomy named by its maintax
+    const matchesAttribution = (e: RawEntry) => attribution === "all" || e.primary !== false
+
+    let rawCats = data.rawEntries.categories.filter(matchesContext).filter(matchesCrossFilter).filter(matchesAttribution)
+    let rawGeos = data.rawEntries.geos.filter(matchesContext).filter(matchesCrossFilter).filter(matchesAttribution)
+    let rawTemplates = data.rawEntries.templates.filter(matchesContext).filter(matchesCrossFilter)
+    let rawAuthors = data.rawEntries.authors.filter(matchesContext).filter(matchesCrossFilter)
+    const allTags = data.rawEntries.tags.filter(matchesContext).filter(matchesCrossFilter)
+    let rawTags = allTags
 
     if (limitCount > 0) {
       // Collect ALL entries to sort by date
@@ -389,20 +868,15 @@ export function CsvAnalysisDashboard() {
         ...rawTemplates
       ].sort((a: any, b: any) => b.date.getTime() - a.date.getTime())
 
-      // Get unique article titles to count properly
-      const uniqueTitles = new Set<string>()
-      const validDates: Date[] = []
-
       // Find the date of the Nth article
       let articleCount = 0
       let dateCutoff: Date | null = null
 
-      // This is an approximation because one article can have multiple entries (cats, geos, etc)
-      // A more accurate way is to filter by unique articles
-      const seenTitles = new Set<string>()
+      // One article can have multiple entries (cats, geos, etc), so count unique IDs
+      const seenIds = new Set<string>()
       for (const entry of allEntries) {
-        if (!seenTitles.has(entry.title)) {
-          seenTitles.add(entry.title)
+        if (!seenIds.has(entry.id)) {
+          seenIds.add(entry.id)
           articleCount++
           if (articleCount === limitCount) {
             dateCutoff = entry.date
@@ -419,13 +893,23 @@ export function CsvAnalysisDashboard() {
       // Use the cutoff logic below
     }
 
-    const filterEntries = (entries: any[]) => entries.filter(e => e.date >= cutoffDate)
+    const scoped = { categories: rawCats, geos: rawGeos, templates: rawTemplates, authors: rawAuthors, tags: rawTags }
+    const filterEntries = (entries: RawEntry[]) => entries.filter(e => e.date >= cutoffDate && e.date <= endDate)
 
     rawCats = filterEntries(rawCats)
     rawGeos = filterEntries(rawGeos)
     rawTemplates = filterEntries(rawTemplates)
-    let rawArticles = data.articles || []
+    rawAuthors = filterEntries(rawAuthors)
+    rawTags = filterEntries(rawTags)
+    let rawArticles = (data.articles || []).filter(matchesContext).filter(matchesCrossFilter)
     rawArticles = filterEntries(rawArticles)
+
+    // "Primary only" keeps either the categories or the geos of each article, so the
+    // matrix, which pairs both, ignores the attribution mode
+    const matrixRawEntries = {
+      categories: filterEntries(data.rawEntries.categories.filter(matchesContext).filter(matchesCrossFilter)),
+      geos: filterEntries(data.rawEntries.geos.filter(matchesContext).filter(matchesCrossFilter))
+    }
     // Calculate dynamic range for the current view
     const allFilteredDates = [
       ...rawCats.map((e: any) => e.date),
@@ -434,26 +918,67 @@ export function CsvAnalysisDashboard() {
     ].sort((a, b) => a.getTime() - b.getTime())
 
     let viewMin = cutoffDate.getTime() === 0 ? (allFilteredDates[0] || new Date()) : cutoffDate
-    let viewMax = allFilteredDates[allFilteredDates.length - 1] || new Date()
+    const viewMax = endDate
 
-    const statsCats = calculateStats(rawCats)
-    const statsGeos = calculateStats(rawGeos)
-    const statsTemplates = calculateStats(rawTemplates)
+    const statsCats = calculateStats(rawCats, referenceDate)
+    const statsGeos = calculateStats(rawGeos, referenceDate)
+    const statsTemplates = calculateStats(rawTemplates, referenceDate)
+    const statsAuthors = calculateStats(rawAuthors, referenceDate)
+    const statsTags = calculateStats(rawTags, referenceDate)
 
     let finalCats: StatEntry[] = statsCats
     let finalGeos: StatEntry[] = statsGeos
 
     if (taxonomy) {
-      const rootCats = buildHierarchicalStats(statsCats, taxonomy, 'category', viewMax)
-      finalCats = flattenHierarchy(rootCats, expandedCategories, statsCats, taxonomy, viewMax)
+      const rootCats = buildHierarchicalStats(statsCats, taxonomy, 'category', referenceDate)
+      finalCats = flattenHierarchy(rootCats, expandedCategories, statsCats, taxonomy, referenceDate)
 
-      const rootGeos = buildHierarchicalStats(statsGeos, taxonomy, 'geo', viewMax)
-      finalGeos = flattenHierarchy(rootGeos, expandedGeos, statsGeos, taxonomy, viewMax)
+      const rootGeos = buildHierarchicalStats(statsGeos, taxonomy, 'geo', referenceDate)
+      finalGeos = flattenHierarchy(rootGeos, expandedGeos, statsGeos, taxonomy, referenceDate)
+    }
+
+    const formatMixFor = (rows: StatEntry[]) => ({
+      mixes: new Map(rows.map((stat) => [getStatKey(stat), calculateFormatMix(stat.rawEntries || [], templatesById)])),
+      colors: templateColors
+    })
+    const formatMixes = { categories: formatMixFor(finalCats), geos: formatMixFor(finalGeos) }
+
+    // Rows are compared with the same entries counted over the comparison window
+    let comparisons = null
+    if (compareMode !== "off" && cutoffDate.getTime() > 0) {
+      const window = getComparisonWindow(cutoffDate, endDate, compareMode as ComparisonMode)
+      const label = `vs ${window.start.toLocaleDateString(undefined, { timeZone })} – ${window.end.toLocaleDateString(undefined, { timeZone })}`
+      const previousStats = (entries: RawEntry[], taxonomyType?: 'category' | 'geo', expandedIds?: Set<string>) => {
+        const stats = calculateStats(entries.filter(e => e.date >= window.start && e.date <= window.end), window.end)
+        if (!taxonomy || !taxonomyType || !expandedIds) return stats
+        const roots = buildHierarchicalStats(stats, taxonomy, taxonomyType, window.end)
+        return flattenHierarchy(roots, expandedIds, stats, taxonomy, window.end)
+      }
+      const compare = (current: StatEntry[], previous: StatEntry[]) => ({ label, periods: comparePeriods(current, previous) })
+
+      comparisons = {
+        categories: compare(finalCats, previousStats(scoped.categories, 'category', expandedCategories)),
+        geos: compare(finalGeos, previousStats(scoped.geos, 'geo', expandedGeos)),
+        templates: compare(statsTemplates, previousStats(scoped.templates)),
+        authors: compare(statsAuthors, previousStats(scoped.authors)),
+        tags: compare(statsTags, previousStats(scoped.tags))
+      }
     }
 
     let timelineCats = getTimelineDistribution(rawCats)
     let timelineGeos = getTimelineDistribution(rawGeos)
     const timelineTemplates = getTimelineDistribution(rawTemplates)
+    const timelineAuthors = getTimelineDistribution(rawAuthors)
+    const timelineTags = getTimelineDistribution(rawTags)
+
+    // Volumes follow the table rows, so taxonomy values are rolled up to their roots
+    const volumes = {
+      categories: countByBucket(taxonomy ? rollUpEntries(rawCats, taxonomy) : rawCats, granularity, timeZone),
+      geos: countByBucket(taxonomy ? rollUpEntries(rawGeos, taxonomy) : rawGeos, granularity, timeZone),
+      templates: countByBucket(rawTemplates, granularity, timeZone),
+      authors: countByBucket(rawAuthors, granularity, timeZone),
+      tags: countByBucket(rawTags, granularity, timeZone)
+    }
 
     if (taxonomy) {
       timelineCats = aggregateTimelineData(timelineCats, taxonomy, 'category')
@@ -465,31 +990,88 @@ export function CsvAnalysisDashboard() {
       viewMin = allFilteredDates[0]
     }
 
-    const start = new Date(viewMin)
-    start.setHours(0, 0, 0, 0)
-    const end = new Date(viewMax)
-    end.setHours(23, 59, 59, 999)
-
-    // Ensure range is not zero for the chart
-    if (start.getTime() === end.getTime()) {
-      start.setDate(start.getDate() - 1)
-      end.setDate(end.getDate() + 1)
-    }
+    // Whole days in the export's zone, so the range is never empty for the chart
+    const start = startOfZonedDay(viewMin, timeZone)
+    const end = endOfZonedDay(viewMax, timeZone)
 
     return {
       filteredCategories: finalCats,
       filteredGeos: finalGeos,
       filteredTemplates: statsTemplates,
+      filteredAuthors: statsAuthors,
+      filteredTags: statsTags,
       filteredArticles: rawArticles,
-      totalArticles: new Set([...rawCats, ...rawGeos, ...rawTemplates].map(e => e.title)).size,
+      totalArticles: new Set([...rawCats, ...rawGeos, ...rawTemplates].map(e => e.id)).size,
       categoryTimeline: timelineCats,
       geoTimeline: timelineGeos,
       templateTimeline: timelineTemplates,
+      authorTimeline: timelineAuthors,
+      tagTimeline: timelineTags,
+      trendingTags: calculateTrending(allTags, start, end, TRENDING_BASELINE_WEEKS, undefined, timeZone),
+      trendingBaselineAvailable: allTags.some((e: RawEntry) => e.date < start),
+      filteredRawEntries: { categories: rawCats, geos: rawGeos, templates: rawTemplates },
+      scopedRawEntries: { categories: scoped.categories, geos: scoped.geos },
+      matrixRawEntries,
+      volumes,
+      comparisons,
+      formatMixes,
       minDate: start,
       maxDate: end,
-      lastArticleDate: viewMax
+      lastArticleDate: allFilteredDates[allFilteredDates.length - 1] || null
     }
-  }, [data, timeRange, taxonomy, expandedCategories, expandedGeos])
+  }, [data, timeZone, templatesById, templateColors, referenceDate, crossFilters, timeRange, customRange, compareMode, granularity, contextFilter, attribution, taxonomy, expandedCategories, expandedGeos])
+
+  const contexts = useMemo(() => {
+    if (!data) return []
+    const values = new Set<string>()
+    for (const article of data.articles as Article[]) {
+      if (article.context) values.add(article.context)
+    }
+    return [...values].sort()
+  }, [data])
+
+  // Clicking a selected row again removes its filter
+  const toggleCrossFilter = (dimension: Dimension, stat: StatEntry) => {
+    const key = `${dimension}:${getStatKey(stat)}`
+    if (crossFilters.some((filter) => filter.key === key)) {
+      setCrossFilters(crossFilters.filter((filter) => filter.key !== key))
+      return
+    }
+    // Rows outside the taxonomy (the "Unmapped" group) match the values they hold
+    const id = (stat as HierarchicalStatEntry).id
+    const values = taxonomy && id !== undefined && taxonomy.nodes.has(id)
+      ? getSubtreeNames(id, taxonomy)
+      : [...new Set((stat.rawEntries || []).map((entry) => entry.value))]
+    setCrossFilters([...crossFilters, { key, dimension, label: stat.name, values }])
+  }
+
+  const selectedKeys = (dimension: Dimension) => new Set(
+    crossFilters.filter((filter) => filter.dimension === dimension).map((filter) => filter.key.slice(dimension.length + 1))
+  )
+
+  const selectRange = (from: Date, to: Date) => {
+    setCustomRange({ from, to })
+    setTimeRange("custom")
+  }
+
+  const handleUpload = async (upload: DatasetUpload) => {
+    const nextTaxonomy = upload.taxonomyText ? await parseTaxonomyCSV(upload.taxonomyText) : taxonomy
+    const nextText = upload.exportText ?? csvText
+    if (!nextText) return
+
+    setData(processCSVData(nextText, nextTaxonomy ?? undefined))
+    setTaxonomy(nextTaxonomy)
+    setCsvText(nextText)
+    if (upload.exportName) setSourceName(upload.exportName)
+    setExpandedCategories(new Set())
+    setExpandedGeos(new Set())
+    setCrossFilters([])
+    // Picked dates may fall outside the new dataset, so fall back to relative ones
+    setCustomRange(null)
+    setTimeRange((range) => range === "custom" ? "2y" : range)
+    setReferenceMode((mode) => mode === "date" ? "latest" : mode)
+    setReferenceDay(null)
+  }
 
   const toggleCategory = (id: string) => {
     const newExpanded = new Set(expandedCategories)
@@ -526,7 +1108,7 @@ export function CsvAnalysisDashboard() {
         <div className="space-y-1">
           <h1 className="text-2xl font-bold tracking-tight">CSV Data Analysis</h1>
           <p className="text-muted-foreground">
-            Analyzing {totalArticles.toLocaleString()} entries from the dataset
+            Analyzing {totalArticles.toLocaleString()} entries from {sourceName}
             {lastArticleDate && (
               <span className="ml-2">
                 • Last article: {lastArticleDate.toLocaleDateString()}
@@ -534,7 +1116,41 @@ export function CsvAnalysisDashboard() {
             )}
           </p>
         </div>
-        <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-muted-foreground">Context:</span>
+          <Select value={contextFilter} onValueChange={setContextFilter}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue placeholder="Select context" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {contexts.map((context) => (
+                <SelectItem key={context} value={context}>{context}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm font-medium text-muted-foreground">Taxonomy:</span>
+          <Select value={attribution} onValueChange={setAttribution}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Select attribution" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All assignments</SelectItem>
+              <SelectItem value="primary">Primary only</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-sm font-medium text-muted-foreground">As of:</span>
+          <ReferenceDatePicker
+            mode={referenceMode}
+            date={referenceDay}
+            onChange={(mode, day) => {
+              setReferenceMode(mode)
+              setReferenceDay(day)
+            }}
+            minDate={datasetExtent?.from}
+            maxDate={datasetExtent?.to}
+            timeZone={timeZone}
+          />
           <span className="text-sm font-medium text-muted-foreground">Time Period:</span>
           <Select value={timeRange} onValueChange={setTimeRange}>
             <SelectTrigger className="w-[180px]">
@@ -551,16 +1167,85 @@ export function CsvAnalysisDashboard() {
               <SelectItem value="3y">Last 3 Years</SelectItem>
               <SelectItem value="4y">Last 4 Years</SelectItem>
               <SelectItem value="5y">Last 5 Years</SelectItem>
+              {customRange && <SelectItem value="custom">Custom Range</SelectItem>}
+            </SelectContent>
+          </Select>
+          <DateRangePicker
+            value={timeRange === "custom" ? customRange : null}
+            onChange={(range) => selectRange(range.from, range.to)}
+            minDate={datasetExtent?.from}
+            maxDate={datasetExtent?.to}
+            timeZone={timeZone}
+          />
+          <span className="text-sm font-medium text-muted-foreground">Granularity:</span>
+          <Select value={granularity} onValueChange={(value) => setGranularity(value as Granularity)}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue placeholder="Select granularity" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+              <SelectItem value="month">Monthly</SelectItem>
+              <SelectItem value="quarter">Quarterly</SelectItem>
+              <SelectItem value="year">Yearly</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-sm font-medium text-muted-foreground">Compare:</span>
+          {/* "All Time" has no earlier period to compare against */}
+          <Select
+            value={timeRange === "all" ? "off" : compareMode}
+            onValueChange={setCompareMode}
+            disabled={timeRange === "all"}
+          >
+            <SelectTrigger className="w-[160px]" title={timeRange === "all" ? "Pick a bounded period to compare" : undefined}>
+              <SelectValue placeholder="Select comparison" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">No comparison</SelectItem>
+              <SelectItem value="previous">Previous period</SelectItem>
+              <SelectItem value="year">Year ago</SelectItem>
             </SelectContent>
           </Select>
         </div>
       </div>
 
+      {crossFilters.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-muted-foreground">Filtered to:</span>
+          {crossFilters.map((filter) => (
+            <Badge key={filter.key} variant="secondary" className="gap-1">
+              <span className="text-muted-foreground">{DIMENSION_LABELS[filter.dimension]}:</span>
+              {filter.label}
+              <button
+                onClick={() => setCrossFilters(crossFilters.filter((f) => f.key !== filter.key))}
+                className="rounded-sm hover:text-foreground"
+                aria-label={`Remove ${filter.label} filter`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Button variant="ghost" size="sm" onClick={() => setCrossFilters([])}>
+            Clear all
+          </Button>
+        </div>
+      )}
+
+      <DatasetUploadZone onUpload={handleUpload} />
+
       <div className="grid gap-6">
         <StatsTable
           title="By Category"
           stats={filteredCategories}
           timelineData={categoryTimeline}
+          distribution={volumes?.categories}
+          comparison={comparisons?.categories}
+          formatMix={formatMixes?.categories}
+          referenceDate={referenceDate}
+          onSelect={(stat) => toggleCrossFilter("categories", stat)}
+          selectedKeys={selectedKeys("categories")}
+          granularity={granularity}
+          onRangeSelect={selectRange}
           minDate={minDate}
           maxDate={maxDate}
           onToggleExpand={toggleCategory}
@@ -577,6 +1262,14 @@ export function CsvAnalysisDashboard() {
           title="By Geo"
           stats={filteredGeos}
           timelineData={geoTimeline}
+          distribution={volumes?.geos}
+          comparison={comparisons?.geos}
+          formatMix={formatMixes?.geos}
+          referenceDate={referenceDate}
+          onSelect={(stat) => toggleCrossFilter("geos", stat)}
+          selectedKeys={selectedKeys("geos")}
+          granularity={granularity}
+          onRangeSelect={selectRange}
           minDate={minDate}
           maxDate={maxDate}
           onToggleExpand={toggleGeo}
@@ -593,6 +1286,13 @@ export function CsvAnalysisDashboard() {
           title="By Template"
           stats={filteredTemplates}
           timelineData={templateTimeline}
+          distribution={volumes?.templates}
+          comparison={comparisons?.templates}
+          referenceDate={referenceDate}
+          onSelect={(stat) => toggleCrossFilter("templates", stat)}
+          selectedKeys={selectedKeys("templates")}
+          granularity={granularity}
+          onRangeSelect={selectRange}
           minDate={minDate}
           maxDate={maxDate}
           totalArticles={totalArticles}
@@ -602,9 +1302,83 @@ export function CsvAnalysisDashboard() {
             </svg>
           }
         />
+
+        <StatsTable
+          title="By Author"
+          stats={filteredAuthors}
+          timelineData={authorTimeline}
+          distribution={volumes?.authors}
+          comparison={comparisons?.authors}
+          referenceDate={referenceDate}
+          onSelect={(stat) => toggleCrossFilter("authors", stat)}
+          selectedKeys={selectedKeys("authors")}
+          granularity={granularity}
+          onRangeSelect={selectRange}
+          minDate={minDate}
+          maxDate={maxDate}
+          totalArticles={totalArticles}
+          icon={
+            <svg className="h-5 w-5 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+            </svg>
+          }
+        />
+
+        <StatsTable
+          title="By Tag"
+          stats={filteredTags}
+          timelineData={tagTimeline}
+          distribution={volumes?.tags}
+          comparison={comparisons?.tags}
+          referenceDate={referenceDate}
+          onSelect={(stat) => toggleCrossFilter("tags", stat)}
+          selectedKeys={selectedKeys("tags")}
+          granularity={granularity}
+          onRangeSelect={selectRange}
+          minDate={minDate}
+          maxDate={maxDate}
+          totalArticles={totalArticles}
+          icon={
+            <svg className="h-5 w-5 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14" />
+            </svg>
+          }
+        />
+
+        <TrendingTagsCard
+          trends={trendingTags}
+          baselineWeeks={TRENDING_BASELINE_WEEKS}
+          baselineAvailable={trendingBaselineAvailable}
+        />
+
+        <PublishingHeatmapCard
+          categories={filteredRawEntries.categories}
+          geos={filteredRawEntries.geos}
+          templates={filteredRawEntries.templates}
+          timeZone={timeZone}
+        />
+
+        <CoverageMatrixCard
+          categories={matrixRawEntries.categories}
+          geos={matrixRawEntries.geos}
+          taxonomy={taxonomy}
+        />
+
+        {taxonomy && (
+          <CoverageGapsCard
+            categories={scopedRawEntries.categories}
+            geos={scopedRawEntries.geos}
+            taxonomy={taxonomy}
+            windowStart={minDate}
+            windowEnd={maxDate}
+            referenceDate={referenceDate}
+          />
+        )}
       </div>
 
-      <RecentArticlesPanel articles={filteredArticles} referenceDate={lastArticleDate || new Date()} />
+      <RecentArticlesPanel articles={filteredArticles} referenceDate={referenceDate} />
+
+      {data?.ingestion && <DataQualityCard report={data.ingestion} />}
     </div>
   )
 }
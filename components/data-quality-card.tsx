@@ -0,0 +1,232 @@
+"use client"
+
+import { useState } from "react"
+import { IngestionReport, SuggestionReason } from "@/lib/csv-data"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ChevronDown, ChevronRight, ShieldCheck } from "lucide-react"
+
+interface DataQualityCardProps {
+    report: IngestionReport
+}
+
+const SUGGESTION_LABELS: Record<SuggestionReason, string> = {
+    accents: "accents / case",
+    slug: "slug",
+    "other-taxonomy": "other taxonomy",
+    partial: "partial"
+}
+
+function sortedCounts(map: Map<string, number>): Array<[string, number]> {
+    return [...map.entries()].sort((a, b) => b[1] - a[1])
+}
+
+function CountList({ title, entries }: { title: string; entries: Array<[string, number]> }) {
+    return (
+        <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                {title}
+            </h4>
+            {entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">None</p>
+            ) : (
+                <div className="flex flex-wrap gap-2">
+                    {entries.map(([name, count]) => (
+                        <Badge key={name} variant="outline" className="gap-1">
+                            {name}
+                            <span className="text-muted-foreground">×{count}</span>
+                        </Badge>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
+export function DataQualityCard({ report }: DataQualityCardProps) {
+    const [open, setOpen] = useState(false)
+    const rejectedCount = report.rejectedRows.length
+    const histogram = [...report.fieldCountHistogram.entries()]
+        .sort((a, b) => a[0] - b[0])
+        .map(([fields, count]) => [`${fields} fields`, count] as [string, number])
+
+    return (
+        <Card>
+            <Collapsible open={open} onOpenChange={setOpen}>
+                <CardHeader>
+                    <CollapsibleTrigger className="flex w-full items-center gap-2 text-left">
+                        {open ? (
+                            <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                        ) : (
+                            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                        )}
+                        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                            <ShieldCheck className="w-5 h-5" />
+                            Data quality
+                        </CardTitle>
+                        <div className="ml-auto flex items-center gap-2">
+                            <Badge variant="secondary">
+                                {report.acceptedRows.toLocaleString()} / {report.totalRows.toLocaleString()} rows
+                            </Badge>
+                            {report.unmappedValues.length > 0 && (
+                                <Badge variant="outline">{report.unmappedValues.length} unmapped</Badge>
+                            )}
+                            {report.duplicates.length > 0 && (
+                                <Badge variant="outline">{report.duplicates.length} duplicates</Badge>
+                            )}
+                            {report.mergedLines > 0 && (
+                                <Badge variant="outline">{report.mergedLines} lines in multi-line records</Badge>
+                            )}
+                            {report.repairedRows > 0 && (
+                                <Badge variant="outline">{report.repairedRows} repaired</Badge>
+                            )}
+                            <Badge variant={rejectedCount > 0 ? "destructive" : "outline"}>
+                                {rejectedCount} rejected
+                            </Badge>
+                        </div>
+                    </CollapsibleTrigger>
+                </CardHeader>
+                <CollapsibleContent>
+                    <CardContent className="space-y-6 pt-4">
+                        <div className="grid gap-6 md:grid-cols-2">
+                            <CountList title="Field count histogram" entries={histogram} />
+                            <CountList title="Unknown template values" entries={sortedCounts(report.unknownTemplates)} />
+                        </div>
+
+                        <div className="space-y-2">
+                            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                                Values missing from taxonomy
+                            </h4>
+                            {report.unmappedValues.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">
+                                    Every category and geo matches a taxonomy node.
+                                </p>
+                            ) : (
+                                <div className="max-h-[300px] overflow-auto rounded-md border">
+                                    <Table>
+                                        <TableHeader className="sticky top-0 bg-muted">
+                                            <TableRow>
+                                                <TableHead className="font-semibold">Value</TableHead>
+                                                <TableHead className="font-semibold">Taxonomy</TableHead>
+                                                <TableHead className="text-right font-semibold">Articles</TableHead>
+                                                <TableHead className="font-semibold">Did you mean</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {report.unmappedValues.map((value) => (
+                                                <TableRow key={`${value.taxonomy}-${value.name}`}>
+                                                    <TableCell className="max-w-[320px] truncate" title={value.name}>
+                                                        {value.name}
+                                                    </TableCell>
+                                                    <TableCell className="text-muted-foreground">{value.taxonomy}</TableCell>
+                                                    <TableCell className="text-right">
+                                                        <Badge variant="outline">{value.count}</Badge>
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        {value.suggestions.length === 0 ? (
+                                                            <span className="text-muted-foreground">No close match</span>
+                                                        ) : (
+                                                            <div className="flex flex-wrap gap-1">
+                                                                {value.suggestions.map(({ node, reason }) => (
+                                                                    <Badge key={node.id} variant="secondary" className="gap-1" title={node.path}>
+                                                                        {node.name}
+                                                                        <span className="text-muted-foreground">{SUGGESTION_LABELS[reason]}</span>
+                                                                    </Badge>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                                Duplicate warnings
+                            </h4>
+                            {report.duplicates.some((duplicate) => duplicate.kind === "id") && (
+                                <p className="text-xs text-muted-foreground">
+                                    Rows repeating an ID are skipped: only the first line listed is ingested.
+                                </p>
+                            )}
+                            {report.duplicates.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">
+                                    No duplicate IDs or titles.
+                                </p>
+                            ) : (
+                                <div className="max-h-[300px] overflow-auto rounded-md border">
+                                    <Table>
+                                        <TableHeader className="sticky top-0 bg-muted">
+                                            <TableRow>
+                                                <TableHead className="font-semibold">Duplicate</TableHead>
+                                                <TableHead className="font-semibold">Value</TableHead>
+                                                <TableHead className="font-semibold">Lines</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {report.duplicates.map((duplicate) => (
+                                                <TableRow key={`${duplicate.kind}-${duplicate.value}`}>
+                                                    <TableCell>
+                                                        <Badge variant={duplicate.kind === "id" ? "destructive" : "outline"}>
+                                                            {duplicate.kind === "id" ? "ID" : "Title"}
+                                                        </Badge>
+                                                    </TableCell>
+                                                    <TableCell className="max-w-[480px] truncate" title={duplicate.value}>
+                                                        {duplicate.value}
+                                                    </TableCell>
+                                                    <TableCell className="font-mono text-xs text-muted-foreground">
+                                                        {duplicate.lines.join(", ")}
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                                Rejected rows
+                            </h4>
+                            {rejectedCount === 0 ? (
+                                <p className="text-sm text-muted-foreground">
+                                    No row failed to parse.
+                                </p>
+                            ) : (
+                                <div className="max-h-[300px] overflow-auto rounded-md border">
+                                    <Table>
+                                        <TableHeader className="sticky top-0 bg-muted">
+                                            <TableRow>
+                                                <TableHead className="font-semibold">Line</TableHead>
+                                                <TableHead className="font-semibold">Reason</TableHead>
+                                                <TableHead className="font-semibold">Raw line</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {report.rejectedRows.map((row) => (
+                                                <TableRow key={row.line}>
+                                                    <TableCell className="font-mono text-xs">{row.line}</TableCell>
+                                                    <TableCell className="text-muted-foreground">{row.reason}</TableCell>
+                                                    <TableCell className="font-mono text-xs max-w-[480px] truncate" title={row.raw}>
+                                                        {row.raw}
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+                        </div>
+                    </CardContent>
+                </CollapsibleContent>
+            </Collapsible>
+        </Card>
+    )
+}
@@ -0,0 +1,127 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { EXPORT_LAYOUT, TAXONOMY_LAYOUT, validateCSVHeader } from "@/lib/csv-schema"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { AlertCircle, Upload } from "lucide-react"
+
+export interface DatasetUpload {
+    exportText?: string
+    exportName?: string
+    taxonomyText?: string
+}
+
+interface DatasetUploadZoneProps {
+    onUpload: (upload: DatasetUpload) => Promise<void> | void
+}
+
+// Classifies each dropped file by its header: a file carrying the taxonomy
+// columns replaces the taxonomy, anything else must be a valid gc_export.
+async function readUpload(files: File[]): Promise<{ upload: DatasetUpload; errors: string[] }> {
+    const upload: DatasetUpload = {}
+    const errors: string[] = []
+
+    for (const file of files) {
+        const text = await file.text()
+
+        if (validateCSVHeader(text, TAXONOMY_LAYOUT).length === 0) {
+            upload.taxonomyText = text
+            continue
+        }
+
+        const missing = validateCSVHeader(text, EXPORT_LAYOUT)
+        if (missing.length > 0) {
+            errors.push(`${file.name}: missing column${missing.length > 1 ? "s" : ""} ${missing.join(", ")}`)
+            continue
+        }
+        if (upload.exportText) {
+            errors.push(`${file.name}: only one export file can be loaded at a time`)
+            continue
+        }
+        upload.exportText = text
+        upload.exportName = file.name
+    }
+
+    return { upload, errors }
+}
+
+export function DatasetUploadZone({ onUpload }: DatasetUploadZoneProps) {
+    const inputRef = useRef<HTMLInputElement>(null)
+    const [dragActive, setDragActive] = useState(false)
+    const [busy, setBusy] = useState(false)
+    const [errors, setErrors] = useState<string[]>([])
+
+    const handleFiles = async (fileList: FileList | null) => {
+        if (!fileList || fileList.length === 0) return
+        setBusy(true)
+        try {
+            const { upload, errors } = await readUpload(Array.from(fileList))
+            setErrors(errors)
+            if (errors.length === 0 && (upload.exportText || upload.taxonomyText)) {
+                await onUpload(upload)
+            }
+        } catch (error) {
+            console.error("Failed to read upload:", error)
+            setErrors([error instanceof Error ? error.message : String(error)])
+        } finally {
+            setBusy(false)
+            if (inputRef.current) inputRef.current.value = ""
+        }
+    }
+
+    return (
+        <div className="space-y-3">
+            <div
+                onDragOver={(e) => {
+                    e.preventDefault()
+                    setDragActive(true)
+                }}
+                onDragLeave={() => setDragActive(false)}
+                onDrop={(e) => {
+                    e.preventDefault()
+                    setDragActive(false)
+                    handleFiles(e.dataTransfer.files)
+                }}
+                className={`flex flex-col md:flex-row items-center gap-3 rounded-lg border border-dashed p-4 transition-colors ${dragActive ? "border-primary bg-primary/5" : "bg-muted/30"}`}
+            >
+                <Upload className="w-5 h-5 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">
+                    Drop a fresh <span className="font-mono">gc_export</span> CSV here, optionally together with a new taxonomy file.
+                    Files are processed in your browser.
+                </p>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="md:ml-auto"
+                    disabled={busy}
+                    onClick={() => inputRef.current?.click()}
+                >
+                    {busy ? "Processing..." : "Browse files"}
+                </Button>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept=".csv,text/csv"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => handleFiles(e.target.files)}
+                />
+            </div>
+
+            {errors.length > 0 && (
+                <Alert variant="destructive">
+                    <AlertCircle />
+                    <AlertTitle>The dataset was not replaced</AlertTitle>
+                    <AlertDescription>
+                        <ul className="list-disc pl-4">
+                            {errors.map((error) => (
+                                <li key={error}>{error}</li>
+                            ))}
+                        </ul>
+                    </AlertDescription>
+                </Alert>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useState } from "react"
+import { type DateRange } from "react-day-picker"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { SOURCE_TIME_ZONE, calendarDayToZoned, endOfZonedDay, zonedToCalendarDay } from "@/lib/timezone"
+import { CalendarIcon } from "lucide-react"
+
+export interface DateRangeValue {
+    from: Date
+    to: Date
+}
+
+interface DateRangePickerProps {
+    value: DateRangeValue | null
+    onChange: (range: DateRangeValue) => void
+    minDate?: Date
+    maxDate?: Date
+    timeZone?: string
+}
+
+export function DateRangePicker({ value, onChange, minDate, maxDate, timeZone = SOURCE_TIME_ZONE }: DateRangePickerProps) {
+    const [open, setOpen] = useState(false)
+    const [draft, setDraft] = useState<DateRange | undefined>()
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next)
+        if (next) {
+            setDraft(value
+                ? { from: zonedToCalendarDay(value.from, timeZone), to: zonedToCalendarDay(value.to, timeZone) }
+                : undefined)
+        }
+    }
+
+    // Picked days cover the whole calendar day in the export's zone, not the viewer's
+    const apply = () => {
+        if (!draft?.from) return
+        const from = calendarDayToZoned(draft.from, timeZone)
+        const to = endOfZonedDay(calendarDayToZoned(draft.to ?? draft.from, timeZone), timeZone)
+        onChange({ from, to })
+        setOpen(false)
+    }
+
+    return (
+        <Popover open={open} onOpenChange={handleOpenChange}>
+            <PopoverTrigger asChild>
+                <Button variant="outline" className="justify-start font-normal">
+                    <CalendarIcon className="h-4 w-4 text-muted-foreground" />
+                    {value
+                        ? `${value.from.toLocaleDateString(undefined, { timeZone })} – ${value.to.toLocaleDateString(undefined, { timeZone })}`
+                        : "Custom range"}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                    mode="range"
+                    numberOfMonths={2}
+                    captionLayout="dropdown"
+                    selected={draft}
+                    onSelect={setDraft}
+                    defaultMonth={draft?.from ?? (maxDate && zonedToCalendarDay(maxDate, timeZone))}
+                    startMonth={minDate && zonedToCalendarDay(minDate, timeZone)}
+                    endMonth={maxDate && zonedToCalendarDay(maxDate, timeZone)}
+                />
+                <div className="flex items-center justify-end gap-2 border-t p-3">
+                    <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+                        Cancel
+                    </Button>
+                    <Button size="sm" disabled={!draft?.from} onClick={apply}>
+                        Apply
+                    </Button>
+                </div>
+            </PopoverContent>
+        </Popover>
+    )
+}
@@ -0,0 +1,120 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { RawEntry, calculateStats, getPublishingHeatmap } from "@/lib/csv-data"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CalendarClock } from "lucide-react"
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
+const HOURS = Array.from({ length: 24 }, (_, h) => h)
+
+interface PublishingHeatmapCardProps {
+    categories: RawEntry[]
+    geos: RawEntry[]
+    templates: RawEntry[]
+    timeZone: string
+}
+
+function FilterSelect({
+    label,
+    value,
+    onChange,
+    entries
+}: {
+    label: string
+    value: string
+    onChange: (value: string) => void
+    entries: RawEntry[]
+}) {
+    const options = useMemo(() => calculateStats(entries).map((s) => s.name), [entries])
+
+    return (
+        <Select value={value} onValueChange={onChange}>
+            <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder={label} />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value="all">All {label.toLowerCase()}</SelectItem>
+                {options.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    )
+}
+
+export function PublishingHeatmapCard({ categories, geos, templates, timeZone }: PublishingHeatmapCardProps) {
+    const [template, setTemplate] = useState("all")
+    const [category, setCategory] = useState("all")
+    const [geo, setGeo] = useState("all")
+
+    const { grid, max, total } = useMemo(() => {
+        const idsMatching = (entries: RawEntry[], value: string) =>
+            value === "all" ? null : new Set(entries.filter((e) => e.value === value).map((e) => e.id))
+
+        const filters = [
+            idsMatching(templates, template),
+            idsMatching(categories, category),
+            idsMatching(geos, geo)
+        ].filter((ids): ids is Set<string> => ids !== null)
+
+        // Every article has exactly one template entry, so it stands in for the article list
+        const articles = templates.filter((e) => filters.every((ids) => ids.has(e.id)))
+        const grid = getPublishingHeatmap(articles, timeZone)
+        const max = Math.max(0, ...grid.flat())
+        return { grid, max, total: articles.length }
+    }, [categories, geos, templates, template, category, geo, timeZone])
+
+    return (
+        <Card>
+            <CardHeader className="pb-3">
+                <CardTitle className="flex flex-wrap items-center gap-2 text-lg">
+                    <CalendarClock className="h-5 w-5 text-muted-foreground" />
+                    Publishing Heatmap
+                    <Badge variant="secondary">{total.toLocaleString()} articles</Badge>
+                    <div className="ml-auto flex flex-wrap items-center gap-2">
+                        <FilterSelect label="Templates" value={template} onChange={setTemplate} entries={templates} />
+                        <FilterSelect label="Categories" value={category} onChange={setCategory} entries={categories} />
+                        <FilterSelect label="Geos" value={geo} onChange={setGeo} entries={geos} />
+                    </div>
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                <div className="overflow-x-auto">
+                    <div className="grid min-w-[640px] gap-[2px]" style={{ gridTemplateColumns: "40px repeat(24, minmax(0, 1fr))" }}>
+                        <div />
+                        {HOURS.map((hour) => (
+                            <div key={hour} className="text-center text-[10px] text-muted-foreground">
+                                {hour % 3 === 0 ? `${hour}h` : ""}
+                            </div>
+                        ))}
+                        {grid.map((row, day) => (
+                            <div key={WEEKDAYS[day]} className="contents">
+                                <div className="text-[10px] font-medium text-muted-foreground flex items-center">
+                                    {WEEKDAYS[day]}
+                                </div>
+                                {row.map((count, hour) => (
+                                    <div
+                                        key={hour}
+                                        className="h-6 rounded-sm bg-muted"
+                                        title={`${WEEKDAYS[day]} ${hour}:00–${hour + 1}:00 · ${count} articles`}
+                                    >
+                                        <div
+                                            className="h-full w-full rounded-sm bg-indigo-600"
+                                            style={{ opacity: max > 0 ? count / max : 0 }}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <p className="mt-3 text-xs text-muted-foreground">
+                    Hours are shown in {timeZone} time.
+                </p>
+            </CardContent>
+        </Card>
+    )
+}
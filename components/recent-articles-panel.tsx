@@ -5,7 +5,7 @@ import { Article, formatRelativeTime } from "@/lib/csv-data"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
-import { Clock, FileText, Globe, Tag } from "lucide-react"
+import { Clock, FileText, Globe, Tag, User } from "lucide-react"
 
 interface RecentArticlesPanelProps {
     articles: Article[]
@@ -16,7 +16,9 @@ export function RecentArticlesPanel({ articles, referenceDate }: RecentArticlesP
     const [filter, setFilter] = useState("all")
 
     const displayArticles = useMemo(() => {
-        let result = [...articles].sort((a, b) => b.date.getTime() - a.date.getTime())
+        let result = articles
+            .filter((a) => a.date <= referenceDate)
+            .sort((a, b) => b.date.getTime() - a.date.getTime())
 
         if (filter === "briefing") {
             result = result.filter(a => a.template.toLowerCase().includes("briefing"))
@@ -25,7 +27,7 @@ export function RecentArticlesPanel({ articles, referenceDate }: RecentArticlesP
         }
 
         return result.slice(0, 25)
-    }, [articles, filter])
+    }, [articles, filter, referenceDate])
 
     return (
         <Card>
@@ -36,6 +38,9 @@ export function RecentArticlesPanel({ articles, referenceDate }: RecentArticlesP
                     <Badge variant="secondary" className="ml-2">
                         Last 25
                     </Badge>
+                    <span className="text-xs font-normal text-muted-foreground">
+                        as of {referenceDate.toLocaleDateString()}
+                    </span>
                 </CardTitle>
                 <Tabs defaultValue="all" value={filter} onValueChange={setFilter} className="w-[400px]">
                     <TabsList className="grid w-full grid-cols-3">
@@ -47,9 +52,9 @@ export function RecentArticlesPanel({ articles, referenceDate }: RecentArticlesP
             </CardHeader>
             <CardContent>
                 <div className="space-y-4">
-                    {displayArticles.map((article, i) => (
+                    {displayArticles.map((article) => (
                         <div
-                            key={i}
+                            key={article.id}
                             className="flex flex-col gap-2 p-3 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
                         >
                             <div className="flex flex-wrap items-center gap-3">
@@ -62,18 +67,24 @@ export function RecentArticlesPanel({ articles, referenceDate }: RecentArticlesP
                                         <FileText className="w-3 h-3" />
                                         {article.template}
                                     </Badge>
-                                    {article.category && (
-                                        <Badge variant="secondary" className="flex items-center gap-1">
+                                    {article.categories.map((category) => (
+                                        <Badge key={category} variant="secondary" className="flex items-center gap-1">
                                             <Tag className="w-3 h-3" />
-                                            {article.category}
+                                            {category}
                                         </Badge>
-                                    )}
-                                    {article.geo && (
-                                        <Badge variant="secondary" className="flex items-center gap-1">
+                                    ))}
+                                    {article.geos.map((geo) => (
+                                        <Badge key={geo} variant="secondary" className="flex items-center gap-1">
                                             <Globe className="w-3 h-3" />
-                                            {article.geo}
+                                            {geo}
                                         </Badge>
-                                    )}
+                                    ))}
+                                    {article.authors.map((author) => (
+                                        <Badge key={author} variant="outline" className="flex items-center gap-1">
+                                            <User className="w-3 h-3" />
+                                            {author}
+                                        </Badge>
+                                    ))}
                                 </div>
                             </div>
 
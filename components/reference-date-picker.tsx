@@ -0,0 +1,74 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SOURCE_TIME_ZONE, calendarDayToZoned, endOfZonedDay, zonedToCalendarDay } from "@/lib/timezone"
+import { CalendarIcon } from "lucide-react"
+
+export type ReferenceMode = "latest" | "today" | "date"
+
+interface ReferenceDatePickerProps {
+    mode: ReferenceMode
+    date: Date | null
+    onChange: (mode: ReferenceMode, date: Date | null) => void
+    minDate?: Date
+    maxDate?: Date
+    timeZone?: string
+}
+
+export function ReferenceDatePicker({ mode, date, onChange, minDate, maxDate, timeZone = SOURCE_TIME_ZONE }: ReferenceDatePickerProps) {
+    const [open, setOpen] = useState(false)
+
+    const handleModeChange = (value: string) => {
+        if (value === "date") {
+            setOpen(true)
+            return
+        }
+        onChange(value as ReferenceMode, null)
+    }
+
+    // A chosen day counts up to its last moment in the export's zone, so articles published that day are included
+    const handleSelect = (day: Date | undefined) => {
+        if (!day) return
+        onChange("date", endOfZonedDay(calendarDayToZoned(day, timeZone), timeZone))
+        setOpen(false)
+    }
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <div className="flex items-center gap-1">
+                <Select value={mode} onValueChange={handleModeChange}>
+                    <SelectTrigger className="w-[140px]">
+                        <SelectValue placeholder="Select reference" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="latest">Latest article</SelectItem>
+                        <SelectItem value="today">Today</SelectItem>
+                        <SelectItem value="date">
+                            {mode === "date" && date ? date.toLocaleDateString(undefined, { timeZone }) : "Pick a date…"}
+                        </SelectItem>
+                    </SelectContent>
+                </Select>
+                <PopoverTrigger asChild>
+                    <Button variant="ghost" size="icon" aria-label="Pick reference date">
+                        <CalendarIcon className="h-4 w-4 text-muted-foreground" />
+                    </Button>
+                </PopoverTrigger>
+            </div>
+            <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                    mode="single"
+                    captionLayout="dropdown"
+                    selected={date ? zonedToCalendarDay(date, timeZone) : undefined}
+                    onSelect={handleSelect}
+                    defaultMonth={date ? zonedToCalendarDay(date, timeZone) : maxDate && zonedToCalendarDay(maxDate, timeZone)}
+                    startMonth={minDate && zonedToCalendarDay(minDate, timeZone)}
+                    endMonth={maxDate && zonedToCalendarDay(maxDate, timeZone)}
+                />
+            </PopoverContent>
+        </Popover>
+    )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { TrendEntry } from "@/lib/csv-data"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { TrendingUp } from "lucide-react"
+
+interface TrendingTagsCardProps {
+    trends: TrendEntry[]
+    baselineWeeks: number
+    baselineAvailable: boolean
+}
+
+export function TrendingTagsCard({ trends, baselineWeeks, baselineAvailable }: TrendingTagsCardProps) {
+    const rising = trends.filter((t) => t.ratio > 1).slice(0, 15)
+
+    return (
+        <Card>
+            <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                    <TrendingUp className="h-5 w-5 text-muted-foreground" />
+                    Trending Tags
+                    <Badge variant="secondary" className="ml-auto">
+                        vs trailing {baselineWeeks} weeks
+                    </Badge>
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                {!baselineAvailable ? (
+                    <p className="text-sm text-muted-foreground py-4 text-center">
+                        Select a shorter time period to compare tags against their baseline.
+                    </p>
+                ) : rising.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-4 text-center">
+                        No tag is publishing faster than its baseline in this period.
+                    </p>
+                ) : (
+                    <div className="max-h-[300px] overflow-auto rounded-md border">
+                        <Table>
+                            <TableHeader className="sticky top-0 bg-muted">
+                                <TableRow>
+                                    <TableHead className="font-semibold">Tag</TableHead>
+                                    <TableHead className="text-right font-semibold">Count</TableHead>
+                                    <TableHead className="text-right font-semibold whitespace-nowrap">Per week</TableHead>
+                                    <TableHead className="text-right font-semibold whitespace-nowrap">Baseline / week</TableHead>
+                                    <TableHead className="text-right font-semibold">Change</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {rising.map((trend) => (
+                                    <TableRow key={trend.name} className="hover:bg-muted/50">
+                                        <TableCell className="font-medium p-2">{trend.name}</TableCell>
+                                        <TableCell className="text-right">
+                                            <Badge variant="outline">{trend.windowCount}</Badge>
+                                        </TableCell>
+                                        <TableCell className="text-right font-mono text-xs text-muted-foreground">
+                                            {trend.windowRate.toFixed(2)}
+                                        </TableCell>
+                                        <TableCell className="text-right font-mono text-xs text-muted-foreground">
+                                            {trend.baselineRate.toFixed(2)}
+                                        </TableCell>
+                                        <TableCell className="text-right font-mono text-xs text-emerald-600">
+                                            {trend.baselineRate === 0 ? "new" : `×${trend.ratio.toFixed(1)}`}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { BucketCounts, OTHER_SERIES, stackSeries } from "@/lib/csv-data"
+import { Granularity, formatBucketLabel } from "@/lib/timezone"
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+const SERIES_COLORS = [
+    "var(--chart-1)", "var(--chart-2)", "var(--chart-3)", "var(--chart-4)", "var(--chart-5)",
+    "#6366f1", "#14b8a6", "#f43f5e", "#84cc16", "#a855f7",
+    "#0ea5e9", "#f97316", "#64748b", "#ec4899", "#22c55e"
+]
+const TOP_N_OPTIONS = [3, 5, 10, 15]
+const GRANULARITY_TITLES: Record<Granularity, string> = {
+    day: "Daily volume",
+    week: "Weekly volume",
+    month: "Monthly volume",
+    quarter: "Quarterly volume",
+    year: "Yearly volume"
+}
+
+interface VolumeChartProps {
+    distribution: BucketCounts
+    granularity: Granularity
+}
+
+export function VolumeChart({ distribution, granularity }: VolumeChartProps) {
+    const [topN, setTopN] = useState(5)
+
+    const { config, rows, keys } = useMemo(() => {
+        const { series, points } = stackSeries(distribution, topN, granularity)
+
+        // Series names contain spaces and accents, so chart keys are positional
+        const keys = series.map((_, i) => `s${i}`)
+        const config: ChartConfig = {}
+        series.forEach((name, i) => {
+            config[keys[i]] = {
+                label: name,
+                color: name === OTHER_SERIES ? "#a1a1aa" : SERIES_COLORS[i % SERIES_COLORS.length]
+            }
+        })
+
+        const rows = points.map(({ period, values }) => {
+            const row: Record<string, string | number> = { period: formatBucketLabel(period, granularity) }
+            values.forEach((value, i) => {
+                row[keys[i]] = value
+            })
+            return row
+        })
+
+        return { config, rows, keys }
+    }, [distribution, granularity, topN])
+
+    return (
+        <div className="rounded-md border p-0 overflow-hidden">
+            <div className="bg-muted/30 px-4 py-2 border-b flex items-center justify-between">
+                <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                    {GRANULARITY_TITLES[granularity]}
+                </span>
+                <Select value={String(topN)} onValueChange={(value) => setTopN(Number(value))}>
+                    <SelectTrigger size="sm" className="w-[110px]">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {TOP_N_OPTIONS.map((n) => (
+                            <SelectItem key={n} value={String(n)}>Top {n}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            {rows.length === 0 ? (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                    No articles in this period.
+                </div>
+            ) : (
+                <ChartContainer config={config} className="aspect-auto h-[260px] w-full p-2">
+                    <AreaChart data={rows} margin={{ left: 0, right: 12, top: 8 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="period" tickLine={false} axisLine={false} minTickGap={32} />
+                        <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                        <ChartTooltip content={<ChartTooltipContent indicator="line" />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        {keys.map((key) => (
+                            <Area
+                                key={key}
+                                dataKey={key}
+                                type="monotone"
+                                stackId="volume"
+                                stroke={`var(--color-${key})`}
+                                fill={`var(--color-${key})`}
+                                fillOpacity={0.4}
+                                isAnimationActive={false}
+                            />
+                        ))}
+                    </AreaChart>
+                </ChartContainer>
+            )}
+        </div>
+    )
+}
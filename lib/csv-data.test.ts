@@ -0,0 +1,60 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { calculateTrending, processCSVData } from "./csv-data"
+import { EXPORT_LAYOUT } from "./csv-schema"
+
+// Timestamps must not depend on the zone of the machine reading the export
+process.env.TZ = "America/New_York"
+
+const HEADER = "ID;titolo_articolo;data_pubblicazione;template_articolo;context;maintax;category;post_tag;geo;staff"
+
+function exportWithDate(date: string): string {
+  return `${HEADER}\n1;Title;${date};templates/post-briefings.php;ops;geo;Économie;NULL;Europe;Author\n`
+}
+
+test("parseDate reads timestamps in Paris time whatever the local zone", () => {
+  assert.equal(new Date(2024, 0, 1).getTimezoneOffset(), 300)
+
+  const { articles, timeZone } = processCSVData(exportWithDate("2024-06-10 00:10:00"))
+  assert.equal(timeZone, "Europe/Paris")
+  assert.equal(articles[0].date.toISOString(), "2024-06-09T22:10:00.000Z")
+})
+
+test("parseDate follows the layout's time zone", () => {
+  const layout = { ...EXPORT_LAYOUT, timeZone: "Asia/Tokyo" }
+  const { articles, timeZone } = processCSVData(exportWithDate("2024-06-10 00:10:00"), undefined, layout)
+  assert.equal(timeZone, "Asia/Tokyo")
+  assert.equal(articles[0].date.toISOString(), "2024-06-09T15:10:00.000Z")
+})
+
+test("ingestion counts physical lines and accounts for every one of them", () => {
+  const row = (id: number, title: string, date: string) =>
+    `${id};${title};${date};templates/post-briefings.php;ops;geo;Économie;NULL;Europe;Author`
+  const csv = [
+    HEADER,
+    row(1, '"Two\nlines"', "2024-01-01 10:00:00"),
+    row(2, "Kept", "2024-01-02 10:00:00"),
+    row(2, "Duplicate", "2024-01-03 10:00:00"),
+    row(3, "Broken", "not a date"),
+  ].join("\n")
+
+  const { ingestion } = processCSVData(csv)
+  assert.equal(ingestion.totalRows, 5)
+  assert.equal(ingestion.acceptedRows, 2)
+  assert.equal(ingestion.rejectedRows.length, 1)
+  assert.equal(ingestion.mergedLines, 1)
+})
+
+test("calculateTrending divides by calendar weeks, past the last entry and back to the first", () => {
+  const at = (day: string) => ({ value: "tag", date: new Date(`${day}T10:00:00Z`) })
+  const entries = [
+    at("2023-12-25"), // Four weeks before the window: the data starts here
+    ...["2024-01-22", "2024-02-05", "2024-03-04", "2024-04-01", "2024-05-06", "2024-05-20", "2024-06-03", "2024-06-10"].map(at),
+  ]
+
+  // The window runs from 20 weeks before the last entry to 30 weeks after it
+  const [trend] = calculateTrending(entries, new Date("2024-01-22T12:00:00Z"), new Date("2025-01-06T12:00:00Z"))
+  assert.equal(trend.windowCount, 8)
+  assert.equal(trend.windowRate, 8 / 51)
+  assert.equal(trend.baselineRate, 1 / 4)
+})
@@ -1,54 +1,155 @@
-export interface StatEntry {
+import {
+  SOURCE_TIME_ZONE,
+  addDaysToKey,
+  formatZonedDate,
+  getBucketStart,
+  getZonedParts,
+  getZonedWeekStart,
+  getZonedWeekday,
+  nextBucketStart,
+  zonedTimeToDate,
+  type Granularity
+} from "./timezone"
+import { EXPORT_LAYOUT, TAXONOMY_LAYOUT, readCSVWithLayout, type CSVLayout, type ExportColumn } from "./csv-schema"
+
+export interface EntryMetrics {
+  firstEntryAt: number | null // Timestamps in milliseconds, null without entries
+  lastEntryAt: number | null
+  meanIntervalHours: number | null // Intervals need at least two entries
+  medianIntervalHours: number | null
+  longestGapHours: number | null
+  activeSpanDays: number // Days between the first and last entry
+  recentCount: number // Entries in the RECENT_WINDOW_DAYS before the reference date
+  recentCadenceHours: number | null // Mean spacing over that window, null when it is empty
+  gapDistribution: number[] // Intervals counted per GAP_BUCKETS entry
+}
+
+export interface StatEntry extends EntryMetrics {
   name: string
   count: number
-  lastEntry: string
-  frequency: string
+  lastEntry: string // lastEntryAt relative to the reference date, see formatLastEntry
+  frequency: string // medianIntervalHours, see formatInterval
   rawDates?: Date[]
+  rawEntries?: RawEntry[]
+  contextCounts?: Record<string, number> // Editorial context (ops / cult) breakdown
+  primaryCount?: number // Assignments where this taxonomy is the article's maintax
+}
+
+const HOUR_MS = 1000 * 60 * 60
+
+export const RECENT_WINDOW_DAYS = 90
+
+// Upper bounds (exclusive) of the gap histogram buckets, in hours
+export const GAP_BUCKETS = [
+  { label: "< 1 hour", maxHours: 1 },
+  { label: "< 6 hours", maxHours: 6 },
+  { label: "< 1 day", maxHours: 24 },
+  { label: "< 3 days", maxHours: 72 },
+  { label: "< 1 week", maxHours: 168 },
+  { label: "< 1 month", maxHours: 720 },
+  { label: "< 3 months", maxHours: 2160 },
+  { label: "3 months +", maxHours: Infinity },
+]
+
+export function calculateEntryMetrics(dates: Date[], referenceDate: Date): EntryMetrics {
+  const times = dates.map((date) => date.getTime()).sort((a, b) => a - b)
+  const gapDistribution = GAP_BUCKETS.map(() => 0)
+  if (times.length === 0) {
+    return {
+      firstEntryAt: null,
+      lastEntryAt: null,
+      meanIntervalHours: null,
+      medianIntervalHours: null,
+      longestGapHours: null,
+      activeSpanDays: 0,
+      recentCount: 0,
+      recentCadenceHours: null,
+      gapDistribution
+    }
+  }
+
+  const first = times[0]
+  const last = times[times.length - 1]
+  const intervals = times.slice(1).map((time, i) => (time - times[i]) / HOUR_MS).sort((a, b) => a - b)
+  const middle = Math.floor(intervals.length / 2)
+  for (const hours of intervals) {
+    gapDistribution[GAP_BUCKETS.findIndex((bucket) => hours < bucket.maxHours)]++
+  }
+
+  const windowHours = RECENT_WINDOW_DAYS * 24
+  const windowStart = referenceDate.getTime() - windowHours * HOUR_MS
+  const recentCount = times.filter((time) => time > windowStart && time <= referenceDate.getTime()).length
+
+  return {
+    firstEntryAt: first,
+    lastEntryAt: last,
+    meanIntervalHours: intervals.length > 0 ? (last - first) / HOUR_MS / intervals.length : null,
+    medianIntervalHours: intervals.length === 0
+      ? null
+      : intervals.length % 2 === 1 ? intervals[middle] : (intervals[middle - 1] + intervals[middle]) / 2,
+    longestGapHours: intervals.length > 0 ? intervals[intervals.length - 1] : null,
+    activeSpanDays: (last - first) / (HOUR_MS * 24),
+    recentCount,
+    recentCadenceHours: recentCount > 0 ? windowHours / recentCount : null,
+    gapDistribution
+  }
 }
 
-export function calculateMetadata(dates: Date[], referenceDate: Date): { lastEntry: string, frequency: string } {
-  if (dates.length === 0) {
-    return { lastEntry: "N/A", frequency: "N/A" }
+export function formatInterval(hours: number | null): string {
+  if (hours === null) return "N/A"
+  if (hours < 24) {
+    const rounded = Math.round(hours)
+    return rounded === 1 ? "1 hour" : `${rounded} hours`
   }
+  const days = Math.round(hours / 24)
+  return days === 1 ? "1 day" : `${days} days`
+}
+
+export function formatLastEntry(lastEntryAt: number | null, referenceDate: Date): string {
+  return lastEntryAt === null ? "N/A" : formatRelativeTime(new Date(lastEntryAt), referenceDate)
+}
 
+export function calculateMetadata(dates: Date[], referenceDate: Date): EntryMetrics & { lastEntry: string, frequency: string } {
   dates.sort((a, b) => a.getTime() - b.getTime())
-  const lastEntry = formatRelativeTime(dates[dates.length - 1], referenceDate)
-
-  let frequency = "N/A"
-  if (dates.length > 1) {
-    const firstDate = dates[0]
-    const lastDate = dates[dates.length - 1]
-    const totalDays = (lastDate.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24)
-    if (totalDays > 0) {
-      const avgDays = totalDays / (dates.length - 1)
-      if (avgDays < 1) {
-        const hours = Math.round(avgDays * 24)
-        frequency = hours === 1 ? "1 hour" : `${hours} hours`
-      } else {
-        const days = Math.round(avgDays)
-        frequency = days === 1 ? "1 day" : `${days} days`
-      }
-    }
+  const metrics = calculateEntryMetrics(dates, referenceDate)
+  return {
+    ...metrics,
+    lastEntry: formatLastEntry(metrics.lastEntryAt, referenceDate),
+    frequency: formatInterval(metrics.medianIntervalHours)
   }
-  return { lastEntry, frequency }
 }
 
-export interface WeeklyDataPoint {
-  week: string
+export interface DistributionPoint {
+  period: string // First day of the bucket, "YYYY-MM-DD"
   count: number
 }
 
-export interface GroupWeeklyData {
+export interface GroupDistribution {
   name: string
-  data: WeeklyDataPoint[]
+  data: DistributionPoint[]
 }
 
+export type BucketCounts = Map<string, Map<string, number>> // Name → bucket start → count
+
 export interface Article {
+  id: string
   title: string
   date: Date
   template: string
-  category?: string
-  geo?: string
+  categories: string[]
+  geos: string[]
+  authors: string[]
+  tags: string[]
+  context?: string
+}
+
+export interface RawEntry {
+  id: string // Article ID, shared by every entry of the same article
+  value: string
+  date: Date
+  title: string
+  context?: string
+  primary?: boolean // Only set for category and geo entries
 }
 
 export interface TaxonomyNode {
@@ -75,18 +176,51 @@ export interface HierarchicalStatEntry extends StatEntry {
   parentId: string | null
 }
 
-function parseDate(dateStr: string): Date | null {
+// Parses "YYYY-MM-DD[ HH:MM[:SS]]" as wall-clock time in the export's time zone
+function parseDate(dateStr: string, timeZone: string = SOURCE_TIME_ZONE): Date | null {
   if (!dateStr) return null
-  const parts = dateStr.split(" ")[0]
-  const [year, month, day] = parts.split("-").map(Number)
-  if (year && month && day) {
-    return new Date(year, month - 1, day)
-  }
-  return null
+  const match = dateStr.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/)
+  if (!match) return null
+
+  const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1).map((v) => (v ? Number(v) : undefined))
+  if (!year || !month || !day) return null
+  return zonedTimeToDate({ year, month, day, hour, minute, second }, timeZone)
+}
+
+export function formatDate(date: Date, timeZone: string = SOURCE_TIME_ZONE): string {
+  return formatZonedDate(date, timeZone)
 }
 
-function formatDate(date: Date): string {
-  return date.toISOString().split("T")[0]
+// Splits a comma-separated export cell, treating NULL and blanks as no value
+function splitList(value: string): string[] {
+  if (!value || value === "NULL") return []
+  const values = value.split(",").map((v) => v.trim()).filter((v) => v && v !== "NULL")
+  return [...new Set(values)]
+}
+
+// Like splitList, but term names may themselves contain commas ("HTC, al-Charaa : la
+// Syrie après Assad"), so when a taxonomy is known the longest run of pieces
+// matching a term name is kept together.
+function splitTaxonomyList(value: string, taxonomy?: TaxonomyTree): string[] {
+  if (!taxonomy) return splitList(value)
+  if (!value || value === "NULL") return []
+
+  const pieces = value.split(",")
+  const values: string[] = []
+  let i = 0
+  while (i < pieces.length) {
+    let end = i + 1
+    for (let j = pieces.length; j > i + 1; j--) {
+      if (taxonomy.nameToId.has(pieces.slice(i, j).join(",").trim())) {
+        end = j
+        break
+      }
+    }
+    const name = pieces.slice(i, end).join(",").trim()
+    if (name && name !== "NULL" && !values.includes(name)) values.push(name)
+    i = end
+  }
+  return values
 }
 
 function cleanTemplateName(template: string): string {
@@ -100,7 +234,7 @@ function cleanTemplateName(template: string): string {
   return clean
 }
 
-export function formatRelativeTime(date: Date, referenceDate: Date = new Date()): string {
+export function formatRelativeTime(date: Date, referenceDate: Date): string {
   const diffMs = referenceDate.getTime() - date.getTime()
   const diffHours = Math.floor(diffMs / (1000 * 60 * 60))
   const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24))
@@ -123,17 +257,27 @@ export function formatRelativeTime(date: Date, referenceDate: Date = new Date())
   return diffHours <= 1 ? "1 hour ago" : `${diffHours} hours ago`
 }
 
-export function calculateStats(entries: Array<{ value: string; date: Date }>): StatEntry[] {
-  const statsMap = new Map<string, { count: number; dates: Date[] }>()
+// Relative times are measured from referenceDate, defaulting to the latest entry
+export function calculateStats(entries: RawEntry[], referenceDate?: Date): StatEntry[] {
+  const statsMap = new Map<string, {
+    count: number
+    dates: Date[]
+    entries: RawEntry[]
+    contextCounts: Record<string, number>
+    primaryCount?: number
+  }>()
 
   for (const entry of entries) {
-    const { value, date } = entry
+    const { value, date, context, primary } = entry
     if (!statsMap.has(value)) {
-      statsMap.set(value, { count: 0, dates: [] })
+      statsMap.set(value, { count: 0, dates: [], entries: [], contextCounts: {} })
     }
     const stats = statsMap.get(value)!
     stats.count++
+    stats.entries.push(entry)
     if (date) stats.dates.push(date)
+    if (context) stats.contextCounts[context] = (stats.contextCounts[context] || 0) + 1
+    if (primary !== undefined) stats.primaryCount = (stats.primaryCount || 0) + (primary ? 1 : 0)
   }
 
   // Find the maximum date across all entries to use as reference
@@ -149,61 +293,84 @@ export function calculateStats(entries: Array<{ value: string; date: Date }>): S
   const results: StatEntry[] = []
 
   for (const [name, data] of statsMap) {
-    const { count, dates } = data
+    const { count, dates, entries, contextCounts, primaryCount } = data
 
-    const metadata = calculateMetadata(dates, maxDate)
+    const metadata = calculateMetadata(dates, referenceDate ?? maxDate)
 
-    results.push({ name, count, lastEntry: metadata.lastEntry, frequency: metadata.frequency, rawDates: dates })
+    results.push({
+      name,
+      count,
+      ...metadata,
+      rawDates: dates,
+      rawEntries: entries,
+      contextCounts,
+      primaryCount
+    })
   }
 
   return results.sort((a, b) => b.count - a.count)
 }
 
-function getWeekStart(date: Date): string {
-  const d = new Date(date)
-  const day = d.getDay()
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1)
-  d.setDate(diff)
-  return d.toISOString().split("T")[0]
+function getWeekStart(date: Date, timeZone: string = SOURCE_TIME_ZONE): string {
+  return getZonedWeekStart(date, timeZone)
 }
 
-function getWeeklyDistribution(
+// Counts entries per name and calendar bucket. Buckets without entries are left out,
+// so the cost follows the number of entries rather than names × buckets.
+export function countByBucket(
   entries: Array<{ value: string; date: Date }>,
-): Map<string, GroupWeeklyData> {
-  const groupedByName = new Map<string, Map<string, number>>()
+  granularity: Granularity = "week",
+  timeZone: string = SOURCE_TIME_ZONE
+): BucketCounts {
+  const groupedByName: BucketCounts = new Map()
 
-  // Group by name and week
   for (const entry of entries) {
-    if (true) { // Replaced date filter with true to include all
-      if (!groupedByName.has(entry.value)) {
-        groupedByName.set(entry.value, new Map())
-      }
-      const weekStart = getWeekStart(entry.date)
-      const weekMap = groupedByName.get(entry.value)!
-      weekMap.set(weekStart, (weekMap.get(weekStart) || 0) + 1)
+    if (!groupedByName.has(entry.value)) {
+      groupedByName.set(entry.value, new Map())
     }
+    const bucket = getBucketStart(entry.date, granularity, timeZone)
+    const bucketMap = groupedByName.get(entry.value)!
+    bucketMap.set(bucket, (bucketMap.get(bucket) || 0) + 1)
   }
 
-  // Generate all weeks in the dataset range
-  const allWeeks: string[] = []
-  if (entries.length === 0) return new Map()
+  return groupedByName
+}
 
-  const sortedDates = [...entries].sort((a, b) => a.date.getTime() - b.date.getTime())
-  const current = new Date(sortedDates[0].date)
-  current.setDate(current.getDate() - current.getDay() + 1) // Start of first week
-  const now = new Date(sortedDates[sortedDates.length - 1].date)
+// Every bucket from the earliest to the latest one holding a count
+function getPeriodRange(groups: Iterable<Map<string, number>>, granularity: Granularity): string[] {
+  let first: string | null = null
+  let last: string | null = null
+  for (const bucketMap of groups) {
+    for (const period of bucketMap.keys()) {
+      if (first === null || period < first) first = period
+      if (last === null || period > last) last = period
+    }
+  }
 
-  while (current <= now) {
-    allWeeks.push(getWeekStart(current))
-    current.setDate(current.getDate() + 7)
+  const periods: string[] = []
+  if (first === null || last === null) return periods
+  for (let period = first; period <= last; period = nextBucketStart(period, granularity)) {
+    periods.push(period)
   }
+  return periods
+}
 
-  // Convert to array format with all weeks filled
-  const result = new Map<string, GroupWeeklyData>()
-  for (const [name, weekMap] of groupedByName) {
-    const data: WeeklyDataPoint[] = allWeeks.map((week) => ({
-      week,
-      count: weekMap.get(week) || 0,
+// Counts entries per name and calendar bucket, filling every bucket between the
+// first and last entry so series line up
+export function getDistribution(
+  entries: Array<{ value: string; date: Date }>,
+  granularity: Granularity = "week",
+  timeZone: string = SOURCE_TIME_ZONE
+): Map<string, GroupDistribution> {
+  const groupedByName = countByBucket(entries, granularity, timeZone)
+  const allPeriods = getPeriodRange(groupedByName.values(), granularity)
+
+  // Convert to array format with all buckets filled
+  const result = new Map<string, GroupDistribution>()
+  for (const [name, bucketMap] of groupedByName) {
+    const data: DistributionPoint[] = allPeriods.map((period) => ({
+      period,
+      count: bucketMap.get(period) || 0,
     }))
     result.set(name, { name, data })
   }
@@ -211,7 +378,155 @@ function getWeeklyDistribution(
   return result
 }
 
+export interface StackedDistribution {
+  series: string[] // Top series by volume, followed by "Other" when the rest is non-empty
+  points: Array<{ period: string; values: number[] }>
+}
+
+export const OTHER_SERIES = "Other"
+
+// Keeps the topN groups with the most articles and sums the rest into an "Other" series.
+// Only the series shown are filled out to every bucket.
+export function stackSeries(counts: BucketCounts, topN: number, granularity: Granularity): StackedDistribution {
+  const groups = [...counts]
+    .map(([name, buckets]) => {
+      let total = 0
+      for (const count of buckets.values()) total += count
+      return { name, buckets, total }
+    })
+    .sort((a, b) => b.total - a.total)
+  const top = groups.slice(0, topN)
+  const rest = groups.slice(topN).filter((g) => g.total > 0)
+
+  const series = top.map((g) => g.name)
+  if (rest.length > 0) series.push(OTHER_SERIES)
+
+  const other = new Map<string, number>()
+  for (const { buckets } of rest) {
+    for (const [period, count] of buckets) other.set(period, (other.get(period) || 0) + count)
+  }
+
+  const periods = getPeriodRange(groups.map((g) => g.buckets), granularity)
+  const points = periods.map((period) => {
+    const values = top.map((g) => g.buckets.get(period) || 0)
+    if (rest.length > 0) values.push(other.get(period) || 0)
+    return { period, values }
+  })
+
+  return { series, points }
+}
+
+export type ComparisonMode = "previous" | "year"
+
+export interface PeriodComparison {
+  previousCount: number
+  delta: number
+  change: number | null // Relative change, null when the comparison window is empty
+}
+
+// The window of the same length just before [start, end], or the same dates a year earlier
+export function getComparisonWindow(start: Date, end: Date, mode: ComparisonMode): { start: Date; end: Date } {
+  if (mode === "year") {
+    const from = new Date(start)
+    from.setFullYear(from.getFullYear() - 1)
+    const to = new Date(end)
+    to.setFullYear(to.getFullYear() - 1)
+    return { start: from, end: to }
+  }
+  const length = end.getTime() - start.getTime()
+  return { start: new Date(start.getTime() - length - 1), end: new Date(start.getTime() - 1) }
+}
+
+// Taxonomy rows are matched on their node id, flat rows on their name
+export function getStatKey(stat: StatEntry): string {
+  return (stat as HierarchicalStatEntry).id ?? stat.name
+}
+
+export function comparePeriods(current: StatEntry[], previous: StatEntry[]): Map<string, PeriodComparison> {
+  const previousCounts = new Map(previous.map((stat) => [getStatKey(stat), stat.count]))
+  const result = new Map<string, PeriodComparison>()
+
+  for (const stat of current) {
+    const previousCount = previousCounts.get(getStatKey(stat)) || 0
+    result.set(getStatKey(stat), {
+      previousCount,
+      delta: stat.count - previousCount,
+      change: previousCount > 0 ? (stat.count - previousCount) / previousCount : null
+    })
+  }
+
+  return result
+}
+
+export interface TrendEntry {
+  name: string
+  windowCount: number
+  windowRate: number // Mean articles per week inside the window
+  baselineRate: number // Mean articles per week over the trailing baseline
+  ratio: number
+}
+
+// Whole weeks between two week-start keys
+function weeksBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (7 * 24 * HOUR_MS))
+}
+
+// Compares each value's weekly rate in [windowStart, windowEnd] with its rate over
+// the baselineWeeks preceding the window. Values seen fewer than minCount times
+// in the window are ignored, and an empty baseline counts as half an article.
+export function calculateTrending(
+  entries: Array<{ value: string; date: Date }>,
+  windowStart: Date,
+  windowEnd: Date,
+  baselineWeeks = 52,
+  minCount = 2,
+  timeZone: string = SOURCE_TIME_ZONE
+): TrendEntry[] {
+  const weekly = countByBucket(entries, "week", timeZone)
+  const windowFrom = getWeekStart(windowStart, timeZone)
+  const windowTo = getWeekStart(windowEnd, timeZone)
+
+  // Rates are per calendar week, including weeks without any entry; the baseline
+  // cannot reach back before the first week holding data
+  let dataFrom: string | null = null
+  for (const buckets of weekly.values()) {
+    for (const period of buckets.keys()) {
+      if (dataFrom === null || period < dataFrom) dataFrom = period
+    }
+  }
+  const requestedBaselineFrom = addDaysToKey(windowFrom, -baselineWeeks * 7)
+  const baselineFrom = dataFrom !== null && dataFrom > requestedBaselineFrom ? dataFrom : requestedBaselineFrom
+  const windowWeeks = weeksBetween(windowFrom, windowTo) + 1
+  const baselineWeeksSeen = Math.max(0, weeksBetween(baselineFrom, windowFrom))
+
+  const results: TrendEntry[] = []
+
+  for (const [name, buckets] of weekly) {
+    let windowCount = 0
+    let baselineCount = 0
+
+    for (const [period, count] of buckets) {
+      if (period >= windowFrom && period <= windowTo) {
+        windowCount += count
+      } else if (period >= baselineFrom && period < windowFrom) {
+        baselineCount += count
+      }
+    }
+
+    if (windowCount < minCount || windowWeeks <= 0) continue
+
+    const windowRate = windowCount / windowWeeks
+    const baselineRate = baselineWeeksSeen > 0 ? baselineCount / baselineWeeksSeen : 0
+    const ratio = windowRate / Math.max(baselineRate, 0.5 / Math.max(baselineWeeksSeen, 1))
+
+    results.push({ name, windowCount, windowRate, baselineRate, ratio })
+  }
+
+  return results.sort((a, b) => b.ratio - a.ratio)
+}
+
 export interface TimelineEntry {
+  id: string
   date: Date
   title: string
 }
@@ -222,7 +537,7 @@ export interface TimelineDataPoint {
 }
 
 export function getTimelineDistribution(
-  entries: Array<{ value: string; date: Date; title: string }>,
+  entries: RawEntry[],
 ): Map<string, TimelineEntry[]> {
   const groupedByName = new Map<string, TimelineEntry[]>()
 
@@ -230,53 +545,50 @@ export function getTimelineDistribution(
     if (!groupedByName.has(entry.value)) {
       groupedByName.set(entry.value, [])
     }
-    groupedByName.get(entry.value)!.push({ date: entry.date, title: entry.title })
+    groupedByName.get(entry.value)!.push({ id: entry.id, date: entry.date, title: entry.title })
   }
 
   return groupedByName
 }
 
-export async function parseTaxonomyCSV(): Promise<TaxonomyTree> {
-  const response = await fetch('/taxonomy.csv')
-  const csvText = await response.text()
-  const lines = csvText.trim().split('\n')
+// 7×24 publication counts (rows Monday…Sunday, columns hour of day) in the export's
+// time zone. Entries sharing an article ID are counted once.
+export function getPublishingHeatmap(
+  entries: Array<{ id: string; date: Date }>,
+  timeZone: string = SOURCE_TIME_ZONE
+): number[][] {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0))
+  const seen = new Set<string>()
+
+  for (const entry of entries) {
+    if (seen.has(entry.id)) continue
+    seen.add(entry.id)
+    grid[getZonedWeekday(entry.date, timeZone)][getZonedParts(entry.date, timeZone).hour]++
+  }
+
+  return grid
+}
+
+// Parses the taxonomy export; fetches the bundled /taxonomy.csv when no text is given
+export async function parseTaxonomyCSV(csvText?: string): Promise<TaxonomyTree> {
+  if (csvText === undefined) {
+    const response = await fetch('/taxonomy.csv')
+    csvText = await response.text()
+  }
+  const { rows } = readCSVWithLayout(csvText, TAXONOMY_LAYOUT)
 
   const nodes = new Map<string, TaxonomyNode>()
   const roots: string[] = []
   const nameToId = new Map<string, string>()
 
-  // Skip header line
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i]
-    if (!line.trim()) continue
-
-    // Parse CSV line (handle quoted values)
-    const parts: string[] = []
-    let current = ''
-    let inQuotes = false
-
-    for (let j = 0; j < line.length; j++) {
-      const char = line[j]
-      if (char === '"') {
-        inQuotes = !inQuotes
-      } else if (char === ',' && !inQuotes) {
-        parts.push(current.replace(/^"|"$/g, ''))
-        current = ''
-      } else {
-        current += char
-      }
-    }
-    parts.push(current.replace(/^"|"$/g, ''))
-
-    if (parts.length < 9) continue
-
-    const taxonomy = parts[0] as 'category' | 'geo'
-    const termId = parts[1]
-    const parentTermId = parts[3]
-    const name = parts[5]
-    const slug = parts[6]
-    const depth = parseInt(parts[7], 10)
-    const path = parts[8]
+  for (const row of rows) {
+    const taxonomy = row.get('taxonomy') as 'category' | 'geo'
+    const termId = row.get('termId')
+    const parentTermId = row.get('parentTermId')
+    const name = row.get('name')
+    const slug = row.get('slug')
+    const depth = parseInt(row.get('depth'), 10)
+    const path = row.get('path')
 
     const id = `${taxonomy}-${termId}`
     const parentId = parentTermId === '0' || parentTermId === 'NULL' ? null : `${taxonomy}-${parentTermId}`
@@ -313,35 +625,91 @@ export async function parseTaxonomyCSV(): Promise<TaxonomyTree> {
   return { nodes, roots, nameToId }
 }
 
-export function buildHierarchicalStats(
-  flatStats: StatEntry[],
+// Collects the raw entries of a taxonomy node and all its descendants, keeping
+// one entry per article so an article filed under two children counts once.
+function collectNodeEntries(
+  nodeId: string,
+  statsMap: Map<string, StatEntry>,
+  taxonomy: TaxonomyTree
+): RawEntry[] {
+  const byArticle = new Map<string, RawEntry>()
+
+  function visit(id: string) {
+    const node = taxonomy.nodes.get(id)
+    if (!node) return
+
+    for (const entry of statsMap.get(node.name)?.rawEntries || []) {
+      if (!byArticle.has(entry.id)) byArticle.set(entry.id, entry)
+    }
+    for (const childId of node.children) {
+      visit(childId)
+    }
+  }
+
+  visit(nodeId)
+  return [...byArticle.values()]
+}
+
+// Aggregates a taxonomy node with its descendants; null when it has no articles
+function buildNodeStat(
+  nodeId: string,
+  parentId: string | null,
+  statsMap: Map<string, StatEntry>,
   taxonomy: TaxonomyTree,
-  taxonomyType: 'category' | 'geo',
-  referenceDate: Date = new Date()
-): HierarchicalStatEntry[] {
-  // Create a map of name -> stat
-  const statsMap = new Map<string, StatEntry>()
-  for (const stat of flatStats) {
-    statsMap.set(stat.name, stat)
+  referenceDate: Date
+): HierarchicalStatEntry | null {
+  const node = taxonomy.nodes.get(nodeId)
+  if (!node) return null
+
+  const entries = collectNodeEntries(nodeId, statsMap, taxonomy)
+  if (entries.length === 0) return null
+
+  return {
+    ...summarizeEntries(node.name, entries, referenceDate),
+    id: nodeId,
+    depth: node.depth,
+    hasChildren: node.children.length > 0,
+    parentId
   }
+}
 
-  // Recursively aggregate counts for a node and its descendants
-  // Recursively aggregate dates for a node and its descendants
-  function collectDates(nodeId: string): Date[] {
-    const node = taxonomy.nodes.get(nodeId)
-    if (!node) return []
+// Stat row for entries already reduced to one per article
+function summarizeEntries(name: string, entries: RawEntry[], referenceDate: Date): StatEntry {
+  const dates = entries.map((e) => e.date)
+  const contextCounts: Record<string, number> = {}
+  let primaryCount: number | undefined
 
-    // Start with the direct dates for this category
-    const directStat = statsMap.get(node.name)
-    let dates = directStat?.rawDates ? [...directStat.rawDates] : []
+  for (const entry of entries) {
+    if (entry.context) contextCounts[entry.context] = (contextCounts[entry.context] || 0) + 1
+    if (entry.primary !== undefined) primaryCount = (primaryCount || 0) + (entry.primary ? 1 : 0)
+  }
 
-    // Add dates from all children recursively
-    for (const childId of node.children) {
-      dates = dates.concat(collectDates(childId))
-    }
+  return {
+    name,
+    count: entries.length,
+    ...calculateMetadata(dates, referenceDate),
+    rawDates: dates,
+    rawEntries: entries,
+    contextCounts,
+    primaryCount
+  }
+}
 
-    return dates
+function toStatsMap(flatStats: StatEntry[]): Map<string, StatEntry> {
+  const statsMap = new Map<string, StatEntry>()
+  for (const stat of flatStats) {
+    statsMap.set(stat.name, stat)
   }
+  return statsMap
+}
+
+export function buildHierarchicalStats(
+  flatStats: StatEntry[],
+  taxonomy: TaxonomyTree,
+  taxonomyType: 'category' | 'geo',
+  referenceDate: Date
+): HierarchicalStatEntry[] {
+  const statsMap = toStatsMap(flatStats)
 
   // Build hierarchical stats for root categories only (initially)
   const hierarchicalStats: HierarchicalStatEntry[] = []
@@ -350,155 +718,375 @@ export function buildHierarchicalStats(
     const node = taxonomy.nodes.get(rootId)
     if (!node || node.taxonomy !== taxonomyType) continue
 
-    const allDates = collectDates(rootId)
-    const metadata = calculateMetadata(allDates, referenceDate)
-    const aggregatedCount = allDates.length
-
     // Only include categories that have entries (direct or through children)
-    if (aggregatedCount > 0) {
-      hierarchicalStats.push({
-        name: node.name,
-        count: aggregatedCount,
-        lastEntry: metadata.lastEntry,
-        frequency: metadata.frequency,
-        id: rootId,
-        depth: node.depth,
-        hasChildren: node.children.length > 0,
-        parentId: null
-      })
-    }
+    const stat = buildNodeStat(rootId, null, statsMap, taxonomy, referenceDate)
+    if (stat) hierarchicalStats.push(stat)
   }
 
   // Sort by count descending
   hierarchicalStats.sort((a, b) => b.count - a.count)
 
+  // Values outside the taxonomy go under a trailing pseudo-root so totals add up
+  const unmapped = getUnmappedStats(flatStats, taxonomy, taxonomyType)
+  if (unmapped.length > 0) {
+    const entries = new Map<string, RawEntry>()
+    for (const stat of unmapped) {
+      for (const entry of stat.rawEntries || []) {
+        if (!entries.has(entry.id)) entries.set(entry.id, entry)
+      }
+    }
+    hierarchicalStats.push(toUnmappedStat([...entries.values()], UNMAPPED_NAME, getUnmappedRootId(taxonomyType), null, referenceDate))
+  }
+
   return hierarchicalStats
 }
 
+const UNMAPPED_NAME = "Unmapped"
+
+export function getUnmappedRootId(taxonomyType: 'category' | 'geo'): string {
+  return `unmapped:${taxonomyType}`
+}
+
+function getUnmappedStats(flatStats: StatEntry[], taxonomy: TaxonomyTree, taxonomyType: 'category' | 'geo'): StatEntry[] {
+  const known = getTaxonomyNames(taxonomy, taxonomyType)
+  return flatStats.filter((stat) => !known.has(stat.name))
+}
+
+function toUnmappedStat(
+  entries: RawEntry[],
+  name: string,
+  id: string,
+  parentId: string | null,
+  referenceDate: Date
+): HierarchicalStatEntry {
+  return {
+    ...summarizeEntries(name, entries, referenceDate),
+    id,
+    depth: parentId ? 1 : 0,
+    hasChildren: parentId === null,
+    parentId
+  }
+}
+
 export function getChildStats(
   parentId: string,
   flatStats: StatEntry[],
   taxonomy: TaxonomyTree,
-  referenceDate: Date = new Date()
+  referenceDate: Date
 ): HierarchicalStatEntry[] {
+  for (const taxonomyType of ['category', 'geo'] as const) {
+    if (parentId !== getUnmappedRootId(taxonomyType)) continue
+    return getUnmappedStats(flatStats, taxonomy, taxonomyType)
+      .map((stat) => toUnmappedStat(stat.rawEntries || [], stat.name, `${parentId}/${stat.name}`, parentId, referenceDate))
+      .sort((a, b) => b.count - a.count)
+  }
+
   const parentNode = taxonomy.nodes.get(parentId)
   if (!parentNode) return []
 
-  const statsMap = new Map<string, StatEntry>()
-  for (const stat of flatStats) {
-    statsMap.set(stat.name, stat)
+  const statsMap = toStatsMap(flatStats)
+  const childStats: HierarchicalStatEntry[] = []
+
+  for (const childId of parentNode.children) {
+    const stat = buildNodeStat(childId, parentId, statsMap, taxonomy, referenceDate)
+    if (stat) childStats.push(stat)
   }
 
-  // Recursively aggregate counts for a node and its descendants
-  // Recursively aggregate dates for a node and its descendants
-  function collectDates(nodeId: string): Date[] {
-    const node = taxonomy.nodes.get(nodeId)
-    if (!node) return []
+  // Sort by count descending
+  childStats.sort((a, b) => b.count - a.count)
 
-    const directStat = statsMap.get(node.name)
-    let dates = directStat?.rawDates ? [...directStat.rawDates] : []
+  return childStats
+}
 
-    for (const childId of node.children) {
-      dates = dates.concat(collectDates(childId))
+export type SuggestionReason = "accents" | "slug" | "other-taxonomy" | "partial"
+
+export interface UnmappedValue {
+  name: string
+  taxonomy: 'category' | 'geo'
+  count: number // Articles carrying the value
+  suggestions: Array<{ node: TaxonomyNode; reason: SuggestionReason }>
+}
+
+const MAX_SUGGESTIONS = 3
+
+// Case, accent and punctuation-insensitive form used to compare names
+function normalizeName(name: string): string {
+  return name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()
+}
+
+function getTaxonomyNames(taxonomy: TaxonomyTree, taxonomyType: 'category' | 'geo'): Set<string> {
+  const names = new Set<string>()
+  for (const node of taxonomy.nodes.values()) {
+    if (node.taxonomy === taxonomyType) names.add(node.name)
+  }
+  return names
+}
+
+function suggestNodes(name: string, taxonomy: TaxonomyTree, taxonomyType: 'category' | 'geo'): UnmappedValue["suggestions"] {
+  const normalized = normalizeName(name)
+  const slug = normalized.replace(/ /g, "-")
+  const ranked: Array<{ node: TaxonomyNode; reason: SuggestionReason; rank: number }> = []
+
+  for (const node of taxonomy.nodes.values()) {
+    const nodeName = normalizeName(node.name)
+    if (node.taxonomy !== taxonomyType) {
+      if (node.name === name) ranked.push({ node, reason: "other-taxonomy", rank: 0 })
+    } else if (nodeName === normalized) {
+      ranked.push({ node, reason: "accents", rank: 1 })
+    } else if (node.slug === slug) {
+      ranked.push({ node, reason: "slug", rank: 2 })
+    } else if (normalized.length >= 4 && nodeName.length >= 4 && (nodeName.includes(normalized) || normalized.includes(nodeName))) {
+      ranked.push({ node, reason: "partial", rank: 3 })
     }
+  }
 
-    return dates
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.node.depth - b.node.depth)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ node, reason }) => ({ node, reason }))
+}
+
+// Lists the values that match no taxonomy node of the given type, most frequent first
+export function findUnmappedValues(
+  entries: RawEntry[],
+  taxonomy: TaxonomyTree,
+  taxonomyType: 'category' | 'geo'
+): UnmappedValue[] {
+  const known = getTaxonomyNames(taxonomy, taxonomyType)
+  const articles = new Map<string, Set<string>>()
+  for (const entry of entries) {
+    if (known.has(entry.value)) continue
+    if (!articles.has(entry.value)) articles.set(entry.value, new Set())
+    articles.get(entry.value)!.add(entry.id)
   }
 
-  const childStats: HierarchicalStatEntry[] = []
+  return [...articles.entries()]
+    .map(([name, ids]) => ({ name, taxonomy: taxonomyType, count: ids.size, suggestions: suggestNodes(name, taxonomy, taxonomyType) }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+}
 
-  for (const childId of parentNode.children) {
-    const node = taxonomy.nodes.get(childId)
-    if (!node) continue
+export type CoverageGapKind = "empty" | "stale" | "drop"
+
+export interface CoverageGap {
+  node: TaxonomyNode
+  kinds: CoverageGapKind[]
+  windowCount: number
+  lastEntryAt: number | null
+  windowRate: number // Articles per week inside the window
+  historyRate: number | null // Articles per week before the window, null without enough history
+}
+
+export interface CoverageGapOptions {
+  staleDays: number // A last entry older than this before windowEnd is stale
+  dropRatio: number // A window rate below this share of the historical rate is a drop
+  minHistoryCount: number // Articles needed before the window to judge a drop
+}
 
-    const dates = collectDates(childId)
-    const metadata = calculateMetadata(dates, referenceDate)
-    const aggregatedCount = dates.length
+const DEFAULT_GAP_OPTIONS: CoverageGapOptions = { staleDays: 90, dropRatio: 0.5, minHistoryCount: 8 }
 
-    if (aggregatedCount > 0) {
-      childStats.push({
-        name: node.name,
-        count: aggregatedCount,
-        lastEntry: metadata.lastEntry,
-        frequency: metadata.frequency,
-        id: childId,
-        depth: node.depth,
-        hasChildren: node.children.length > 0,
-        parentId: parentId
-      })
+// Lists every taxonomy node of the given type with no articles in [windowStart, windowEnd],
+// a stale last entry, or a cadence well below its history. Entries should not be limited
+// to the window, since the history before it is what the window is compared against.
+export function findCoverageGaps(
+  entries: RawEntry[],
+  taxonomy: TaxonomyTree,
+  taxonomyType: 'category' | 'geo',
+  windowStart: Date,
+  windowEnd: Date,
+  options: Partial<CoverageGapOptions> = {}
+): CoverageGap[] {
+  const { staleDays, dropRatio, minHistoryCount } = { ...DEFAULT_GAP_OPTIONS, ...options }
+  const week = 7 * 24 * HOUR_MS
+  const start = windowStart.getTime()
+  const end = windowEnd.getTime()
+  const windowWeeks = Math.max(1, (end - start) / week)
+  const statsMap = toStatsMap(calculateStats(entries.filter((e) => e.date.getTime() <= end), windowEnd))
+  const gaps: CoverageGap[] = []
+
+  for (const node of taxonomy.nodes.values()) {
+    if (node.taxonomy !== taxonomyType) continue
+
+    const times = collectNodeEntries(node.id, statsMap, taxonomy).map((e) => e.date.getTime())
+    const windowCount = times.filter((time) => time >= start).length
+    const history = times.filter((time) => time < start)
+    const lastEntryAt = times.length > 0 ? Math.max(...times) : null
+
+    let historyRate: number | null = null
+    if (history.length >= minHistoryCount) {
+      historyRate = history.length / Math.max(1, (start - Math.min(...history)) / week)
+    }
+    const windowRate = windowCount / windowWeeks
+
+    const kinds: CoverageGapKind[] = []
+    if (windowCount === 0) kinds.push("empty")
+    if (lastEntryAt !== null && end - lastEntryAt > staleDays * 24 * HOUR_MS) kinds.push("stale")
+    if (historyRate !== null && windowCount > 0 && windowRate < historyRate * dropRatio) kinds.push("drop")
+
+    if (kinds.length > 0) {
+      gaps.push({ node, kinds, windowCount, lastEntryAt, windowRate, historyRate })
     }
   }
 
-  // Sort by count descending
-  childStats.sort((a, b) => b.count - a.count)
+  return gaps.sort((a, b) => a.node.path.localeCompare(b.node.path))
+}
 
-  return childStats
+// Names of a taxonomy node and all of its descendants, as they appear in the export
+export function getSubtreeNames(nodeId: string, taxonomy: TaxonomyTree): string[] {
+  const names: string[] = []
+  const visit = (id: string) => {
+    const node = taxonomy.nodes.get(id)
+    if (!node) return
+    names.push(node.name)
+    node.children.forEach(visit)
+  }
+  visit(nodeId)
+  return names
+}
+
+export interface RejectedRow {
+  line: number
+  reason: string
+  raw: string
+}
+
+export interface DuplicateWarning {
+  kind: "id" | "title"
+  value: string
+  lines: number[] // Every line carrying the value, the first one is the row that was kept
+}
+
+export interface IngestionReport {
+  totalRows: number // Non-blank physical lines after the header, as editors count them in the export
+  acceptedRows: number
+  mergedLines: number // Lines folded into multi-line records, so neither accepted, rejected nor duplicate
+  repairedRows: number
+  rejectedRows: RejectedRow[]
+  fieldCountHistogram: Map<number, number>
+  unknownTemplates: Map<string, number>
+  unmappedValues: UnmappedValue[] // Empty when no taxonomy was provided
+  duplicates: DuplicateWarning[]
+}
+
+function isKnownTemplate(template: string): boolean {
+  return template.startsWith("templates/post-") && template.endsWith(".php")
 }
 
-export function processCSVData(csvString: string): {
+export function processCSVData(
+  csvString: string,
+  taxonomy?: TaxonomyTree,
+  layout: CSVLayout<ExportColumn> = EXPORT_LAYOUT
+): {
   categories: StatEntry[]
   geos: StatEntry[]
   templates: StatEntry[]
+  authors: StatEntry[]
+  tags: StatEntry[]
   totalArticles: number
-  categoryWeekly: Map<string, GroupWeeklyData>
-  geoWeekly: Map<string, GroupWeeklyData>
-  templateWeekly: Map<string, GroupWeeklyData>
   categoryTimeline: Map<string, TimelineEntry[]>
   geoTimeline: Map<string, TimelineEntry[]>
   templateTimeline: Map<string, TimelineEntry[]>
   rawEntries: {
-    categories: Array<{ value: string; date: Date; title: string }>
-    geos: Array<{ value: string; date: Date; title: string }>
-    templates: Array<{ value: string; date: Date; title: string }>
+    categories: RawEntry[]
+    geos: RawEntry[]
+    templates: RawEntry[]
+    authors: RawEntry[]
+    tags: RawEntry[]
   }
   articles: Article[]
+  ingestion: IngestionReport
+  timeZone: string // Zone the timestamps were read in; bucket and display dates in it too
 } {
-  const lines = csvString.trim().split("\n")
-  const categoryEntries: Array<{ value: string; date: Date; title: string }> = []
-  const geoEntries: Array<{ value: string; date: Date; title: string }> = []
-  const templateEntries: Array<{ value: string; date: Date; title: string }> = []
-  const articles: Article[] = []
+  const { rows, rejected, repairedCount } = readCSVWithLayout(csvString, layout)
+  const timeZone = layout.timeZone ?? SOURCE_TIME_ZONE
+  // A rejected record may span several physical lines; each is reported on its own
+  const rejectedRows: RejectedRow[] = rejected.flatMap(({ line, reason, raw }) =>
+    raw.split(/\r?\n/).map((text, offset) => ({ line: line + offset, reason, raw: text }))
+  )
+  const fieldCountHistogram = new Map<number, number>()
+  const unknownTemplates = new Map<string, number>()
+  const idLines = new Map<string, number[]>()
+  const titleLines = new Map<string, number[]>()
+  let acceptedRows = 0
+
+  for (const record of [...rows.map((row) => row.record), ...rejected]) {
+    const n = record.fields.length
+    fieldCountHistogram.set(n, (fieldCountHistogram.get(n) || 0) + 1)
+  }
 
-  // Skip header, parse each line
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i]
-    if (!line.trim()) continue
-    const parts = line.split(";")
-    if (parts.length < 10) continue
+  const categoryEntries: RawEntry[] = []
+  const geoEntries: RawEntry[] = []
+  const templateEntries: RawEntry[] = []
+  const authorEntries: RawEntry[] = []
+  const tagEntries: RawEntry[] = []
+  const articles: Article[] = []
 
-    const title = parts[1]
-    const dateStr = parts[2]
-    const template = parts[3]
-    const category = parts[6]
-    const geo = parts[8]
+  for (const row of rows) {
+    const { line, raw } = row.record
+    const id = row.get("id").trim() || `line-${line}` // Exports without an ID column fall back to the line
+    const title = row.get("title")
+    const dateStr = row.get("date")
+    const template = row.get("template")
+    const categories = splitTaxonomyList(row.get("category"), taxonomy)
+    const geos = splitTaxonomyList(row.get("geo"), taxonomy)
+    const authors = splitList(row.get("staff"))
+    const tags = splitList(row.get("tags"))
+    const contextValue = row.get("context")
+    const context = contextValue && contextValue !== "NULL" ? contextValue : undefined
+    const maintax = row.get("maintax")
+
+    const date = parseDate(dateStr, timeZone)
+    if (!date) {
+      rejectedRows.push({ line, reason: `Unparseable date "${dateStr}"`, raw })
+      continue
+    }
 
-    const date = parseDate(dateStr)
-    if (!date) continue
+    const seenOnLines = idLines.get(id)
+    if (seenOnLines) {
+      seenOnLines.push(line) // Skipped, and reported under duplicates rather than rejected rows
+      continue
+    }
+    idLines.set(id, [line])
+    if (title) titleLines.set(title, [...(titleLines.get(title) || []), line])
+    acceptedRows++
 
-    if (category && category !== "NULL") {
-      categoryEntries.push({ value: category.trim(), date, title })
+    if (!isKnownTemplate(template)) {
+      const key = template || "(empty)"
+      unknownTemplates.set(key, (unknownTemplates.get(key) || 0) + 1)
     }
-    if (geo && geo !== "NULL") {
-      geoEntries.push({ value: geo, date, title })
+    for (const category of categories) {
+      categoryEntries.push({ id, value: category, date, title, context, primary: maintax === "category" })
+    }
+    for (const geo of geos) {
+      geoEntries.push({ id, value: geo, date, title, context, primary: maintax === "geo" })
+    }
+    for (const author of authors) {
+      authorEntries.push({ id, value: author, date, title, context })
+    }
+    for (const tag of tags) {
+      tagEntries.push({ id, value: tag, date, title, context })
     }
     if (template) {
       const cleanTemplate = cleanTemplateName(template)
-      templateEntries.push({ value: cleanTemplate, date, title })
+      templateEntries.push({ id, value: cleanTemplate, date, title, context })
 
       const article: Article = {
+        id,
         title,
         date,
         template: cleanTemplate,
-        category: (category && category !== "NULL") ? category.trim() : undefined,
-        geo: (geo && geo !== "NULL") ? geo : undefined
+        categories,
+        geos,
+        authors,
+        tags,
+        context
       }
       articles.push(article)
     }
   }
 
-  const categoryWeekly = getWeeklyDistribution(categoryEntries)
-  const geoWeekly = getWeeklyDistribution(geoEntries)
-  const templateWeekly = getWeeklyDistribution(templateEntries)
+  const totalRows = Math.max(0, csvString.split(/\r?\n/).filter((line) => line.trim() !== "").length - 1)
+  let skippedDuplicates = 0
+  for (const lines of idLines.values()) skippedDuplicates += lines.length - 1
 
   const categoryTimeline = getTimelineDistribution(categoryEntries)
   const geoTimeline = getTimelineDistribution(geoEntries)
@@ -508,20 +1096,155 @@ export function processCSVData(csvString: string): {
     categories: calculateStats(categoryEntries),
     geos: calculateStats(geoEntries),
     templates: calculateStats(templateEntries),
-    totalArticles: lines.length - 1,
-    categoryWeekly,
-    geoWeekly,
-    templateWeekly,
+    authors: calculateStats(authorEntries),
+    tags: calculateStats(tagEntries),
+    totalArticles: acceptedRows,
     categoryTimeline,
     geoTimeline,
     templateTimeline,
     rawEntries: {
       categories: categoryEntries,
       geos: geoEntries,
-      templates: templateEntries
+      templates: templateEntries,
+      authors: authorEntries,
+      tags: tagEntries
+    },
+    articles,
+    ingestion: {
+      totalRows,
+      acceptedRows,
+      mergedLines: totalRows - acceptedRows - rejectedRows.length - skippedDuplicates,
+      repairedRows: repairedCount,
+      rejectedRows: rejectedRows.sort((a, b) => a.line - b.line),
+      fieldCountHistogram,
+      unknownTemplates,
+      unmappedValues: taxonomy
+        ? [...findUnmappedValues(categoryEntries, taxonomy, 'category'), ...findUnmappedValues(geoEntries, taxonomy, 'geo')]
+        : [],
+      duplicates: [
+        ...[...idLines].filter(([, lines]) => lines.length > 1)
+          .map(([value, lines]) => ({ kind: "id" as const, value, lines })),
+        ...[...titleLines].filter(([, lines]) => lines.length > 1)
+          .map(([value, lines]) => ({ kind: "title" as const, value, lines }))
+      ]
     },
-    articles
+    timeZone
+  }
+}
+
+// Replaces each entry's value with its taxonomy ancestor at the given depth (0 = root),
+// keeping one entry per article and ancestor. Values outside the taxonomy are pooled
+// under "Unmapped", as in the hierarchical tables.
+export function rollUpEntries(entries: RawEntry[], taxonomy: TaxonomyTree, depth = 0): RawEntry[] {
+  const ancestorNames = new Map<string, string>()
+  const seen = new Set<string>()
+  const result: RawEntry[] = []
+
+  for (const entry of entries) {
+    let name = ancestorNames.get(entry.value)
+    if (name === undefined) {
+      let node = taxonomy.nodes.get(taxonomy.nameToId.get(entry.value) || "")
+      while (node?.parentId && node.depth > depth) {
+        const parent = taxonomy.nodes.get(node.parentId)
+        if (!parent) break
+        node = parent
+      }
+      name = node ? node.name : UNMAPPED_NAME
+      ancestorNames.set(entry.value, name)
+    }
+
+    const key = `${entry.id}|${name}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    result.push(name === entry.value ? entry : { ...entry, value: name })
+  }
+
+  return result
+}
+
+export interface CrossTabAxis {
+  name: string
+  total: number // Articles carrying this value and at least one value on the other axis
+}
+
+export interface CrossTab {
+  rows: CrossTabAxis[]
+  columns: CrossTabAxis[]
+  counts: Map<string, Map<string, number>> // Row value → column value → articles
+  total: number
+}
+
+// Counts the articles carrying each pair of row and column values; rows and columns
+// are ordered by volume
+export function buildCrossTab(rowEntries: RawEntry[], columnEntries: RawEntry[]): CrossTab {
+  const columnsByArticle = new Map<string, Set<string>>()
+  for (const entry of columnEntries) {
+    if (!columnsByArticle.has(entry.id)) columnsByArticle.set(entry.id, new Set())
+    columnsByArticle.get(entry.id)!.add(entry.value)
+  }
+
+  const rowsByArticle = new Map<string, Set<string>>()
+  for (const entry of rowEntries) {
+    if (!columnsByArticle.has(entry.id)) continue
+    if (!rowsByArticle.has(entry.id)) rowsByArticle.set(entry.id, new Set())
+    rowsByArticle.get(entry.id)!.add(entry.value)
+  }
+
+  const counts = new Map<string, Map<string, number>>()
+  const rowTotals = new Map<string, number>()
+  const columnTotals = new Map<string, number>()
+
+  for (const [id, rowValues] of rowsByArticle) {
+    const columnValues = columnsByArticle.get(id)!
+    for (const column of columnValues) {
+      columnTotals.set(column, (columnTotals.get(column) || 0) + 1)
+    }
+    for (const row of rowValues) {
+      rowTotals.set(row, (rowTotals.get(row) || 0) + 1)
+      if (!counts.has(row)) counts.set(row, new Map())
+      const cells = counts.get(row)!
+      for (const column of columnValues) {
+        cells.set(column, (cells.get(column) || 0) + 1)
+      }
+    }
   }
+
+  const toAxis = (totals: Map<string, number>) =>
+    [...totals.entries()].map(([name, total]) => ({ name, total })).sort((a, b) => b.total - a.total)
+
+  return { rows: toAxis(rowTotals), columns: toAxis(columnTotals), counts, total: rowsByArticle.size }
+}
+
+export interface FormatMix {
+  counts: Record<string, number> // Articles per template
+  diversity: number // Effective number of formats: exp of the Shannon entropy of the mix
+}
+
+export function getTemplatesById(articles: Article[]): Map<string, string> {
+  return new Map(articles.map((article) => [article.id, article.template]))
+}
+
+// Template mix of the articles behind a row, looked up in getTemplatesById
+export function calculateFormatMix(entries: Array<{ id: string }>, templateById: Map<string, string>): FormatMix {
+  const counts: Record<string, number> = {}
+  const seen = new Set<string>()
+  let total = 0
+
+  for (const entry of entries) {
+    const template = templateById.get(entry.id)
+    if (template === undefined || seen.has(entry.id)) continue
+    seen.add(entry.id)
+    counts[template] = (counts[template] || 0) + 1
+    total++
+  }
+
+  let entropy = 0
+  for (const count of Object.values(counts)) {
+    const share = count / total
+    entropy -= share * Math.log(share)
+  }
+
+  return { counts, diversity: total > 0 ? Math.exp(entropy) : 0 }
 }
 
 export function aggregateTimelineData(
@@ -531,21 +1254,22 @@ export function aggregateTimelineData(
 ): Map<string, TimelineEntry[]> {
   const aggregatedMap = new Map<string, TimelineEntry[]>()
 
-  // Helper to collect entries recursively
-  function collectEntries(nodeId: string): TimelineEntry[] {
+  // Helper to collect entries recursively, once per article
+  function collectEntries(nodeId: string, byArticle = new Map<string, TimelineEntry>()): TimelineEntry[] {
     const node = taxonomy.nodes.get(nodeId)
     if (!node) return []
 
     // Get entries for the current node name from the flat map
-    const directEntries = flatTimelineData.get(node.name) || []
+    for (const entry of flatTimelineData.get(node.name) || []) {
+      if (!byArticle.has(entry.id)) byArticle.set(entry.id, entry)
+    }
 
     // Collect entries from all children
-    let allEntries = [...directEntries]
     for (const childId of node.children) {
-      allEntries = allEntries.concat(collectEntries(childId))
+      collectEntries(childId, byArticle)
     }
 
-    return allEntries
+    return [...byArticle.values()]
   }
 
   // Iterate over all nodes in taxonomy matching the type
@@ -560,12 +1284,20 @@ export function aggregateTimelineData(
     }
   }
 
-  // Also include non-hierarchical entries (if any) that are not in the taxonomy
+  // Also include non-hierarchical entries (if any) that are not in the taxonomy,
+  // and pool them for the "Unmapped" pseudo-root row
+  const known = getTaxonomyNames(taxonomy, taxonomyType)
+  const unmapped = new Map<string, TimelineEntry>()
   for (const [name, entries] of flatTimelineData) {
-    if (!taxonomy.nameToId.has(name) && !aggregatedMap.has(name)) {
-      aggregatedMap.set(name, entries)
+    if (known.has(name)) continue
+    if (!aggregatedMap.has(name)) aggregatedMap.set(name, entries)
+    for (const entry of entries) {
+      if (!unmapped.has(entry.id)) unmapped.set(entry.id, entry)
     }
   }
+  if (unmapped.size > 0 && !known.has(UNMAPPED_NAME)) {
+    aggregatedMap.set(UNMAPPED_NAME, [...unmapped.values()])
+  }
 
   return aggregatedMap
 }
@@ -0,0 +1,49 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { parseCSV } from "./csv-parser"
+
+const HEADER = "id;title;date"
+
+function parse(...lines: string[]) {
+  return parseCSV([HEADER, ...lines].join("\n"), { delimiter: ";" })
+}
+
+test("parseCSV keeps a delimiter inside quotes", () => {
+  const { rows, rejected } = parse('1;"Paris; Berlin";2024-01-01')
+  assert.equal(rejected.length, 0)
+  assert.deepEqual(rows[0].fields, ["1", "Paris; Berlin", "2024-01-01"])
+})
+
+test("parseCSV unescapes doubled quotes", () => {
+  const { rows } = parse('1;"Le ""mot"" du jour";2024-01-01')
+  assert.equal(rows[0].fields[1], 'Le "mot" du jour')
+  assert.equal(rows[0].repaired, true)
+})
+
+test("parseCSV splits CRLF lines without keeping the carriage return", () => {
+  const { rows } = parseCSV(`${HEADER}\r\n1;A;2024-01-01\r\n2;B;2024-01-02\r\n`, { delimiter: ";" })
+  assert.deepEqual(rows.map((row) => row.fields), [["1", "A", "2024-01-01"], ["2", "B", "2024-01-02"]])
+  assert.deepEqual(rows.map((row) => row.line), [2, 3])
+})
+
+test("parseCSV keeps a line break inside a quoted field", () => {
+  const { rows, rejected } = parse('1;"Two\nlines";2024-01-01', "2;Next;2024-01-02")
+  assert.equal(rejected.length, 0)
+  assert.equal(rows[0].fields[1], "Two\nlines")
+  assert.deepEqual([rows[0].line, rows[0].endLine, rows[1].line], [2, 3, 4])
+})
+
+test("parseCSV rejects an unclosed quote instead of merging it with a quoted next row", () => {
+  const { rows, rejected } = parse('1;"Unclosed title;2024-01-01', '2;"Le ""mot"" du jour";2024-01-02')
+  assert.equal(rejected.length, 1)
+  assert.equal(rejected[0].line, 2)
+  assert.match(rejected[0].reason, /Unclosed quote/)
+  assert.deepEqual(rows.map((row) => row.fields), [["2", 'Le "mot" du jour', "2024-01-02"]])
+})
+
+test("parseCSV does not split unquoted fields on the semicolon of an entity", () => {
+  const { rows, rejected } = parse("4;Tom &amp; Jerry&nbsp;&#59;&#x3B;;2024-01-01", "5;R&D;2024-01-02")
+  assert.equal(rejected.length, 0)
+  assert.deepEqual(rows[0].fields, ["4", "Tom & Jerry\u00a0;;", "2024-01-01"])
+  assert.deepEqual(rows[1].fields, ["5", "R&D", "2024-01-02"])
+})
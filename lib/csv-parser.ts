@@ -0,0 +1,252 @@
+export interface CSVParseOptions {
+  delimiter?: string
+  quote?: string
+  decodeEntities?: boolean
+}
+
+export interface CSVRecord {
+  fields: string[]
+  line: number // 1-based physical line where the record starts
+  endLine: number // Physical line where it ends, past line breaks inside quotes
+  raw: string
+  repaired: boolean // quoting, escaped quotes, embedded newlines or entities had to be resolved
+}
+
+export interface CSVRejectedRecord extends CSVRecord {
+  reason: string
+}
+
+export interface CSVParseResult {
+  header: string[]
+  rows: CSVRecord[]
+  rejected: CSVRejectedRecord[]
+  repairedCount: number
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  quot: '"',
+  apos: "'",
+  lt: "<",
+  gt: ">",
+  nbsp: " ",
+  semi: ";",
+  comma: ",",
+}
+
+// Matches one entity at a given offset, so its trailing ";" is not read as a delimiter
+const ENTITY_AT = /&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/y
+
+function isKnownEntity(entity: string): boolean {
+  return entity[0] === "#" || NAMED_ENTITIES[entity.toLowerCase()] !== undefined
+}
+
+export function decodeHTMLEntities(value: string): string {
+  if (value.indexOf("&") === -1) return value
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code > 0 ? String.fromCodePoint(code) : match
+    }
+    const decoded = NAMED_ENTITIES[entity.toLowerCase()]
+    return decoded !== undefined ? decoded : match
+  })
+}
+
+interface RecordRead {
+  record: CSVRecord | null // null for a blank line
+  next: number // Offset just past the record's line break
+  nextLine: number
+}
+
+// Reads the record starting at offset i on physical line `line`. Quotes are
+// honoured across line breaks unless singleLine is set, in which case the record
+// always stops at the end of its first physical line.
+function readRecord(
+  text: string,
+  i: number,
+  line: number,
+  options: CSVParseOptions,
+  singleLine = false
+): RecordRead {
+  const delimiter = options.delimiter ?? ","
+  const quote = options.quote ?? '"'
+  const decodeEntities = options.decodeEntities ?? true
+
+  const recordStart = i
+  const recordLine = line
+  const fields: string[] = []
+  let field = ""
+  let inQuotes = false
+  let fieldWasQuoted = false
+  let repaired = false
+  let endOfRecord = false
+
+  while (i < text.length && !endOfRecord) {
+    const char = text[i]
+
+    if (inQuotes && !(singleLine && char === "\n")) {
+      if (char === quote) {
+        if (text[i + 1] === quote) {
+          field += quote
+          repaired = true
+          i += 2
+          continue
+        }
+        inQuotes = false
+      } else {
+        if (char === "\n") line++
+        if (char === delimiter || char === "\n") repaired = true
+        field += char
+      }
+      i++
+      continue
+    }
+
+    if (char === "&" && decodeEntities) {
+      ENTITY_AT.lastIndex = i
+      const match = ENTITY_AT.exec(text)
+      if (match && isKnownEntity(match[1])) {
+        field += match[0]
+        i += match[0].length
+        continue
+      }
+    }
+
+    if (char === quote && field === "" && !fieldWasQuoted) {
+      inQuotes = true
+      fieldWasQuoted = true
+    } else if (char === delimiter) {
+      fields.push(field)
+      field = ""
+      fieldWasQuoted = false
+    } else if (char === "\r" && text[i + 1] === "\n") {
+      // CRLF: let the \n on the next iteration terminate the record
+    } else if (char === "\n") {
+      line++
+      endOfRecord = true
+    } else {
+      // Stray characters after a closing quote are kept rather than dropped
+      if (fieldWasQuoted) repaired = true
+      field += char
+    }
+    i++
+  }
+
+  if (inQuotes) repaired = true
+  fields.push(field)
+
+  const raw = text.slice(recordStart, i).replace(/\r?\n$/, "")
+  if (raw.trim() === "") return { record: null, next: i, nextLine: line }
+
+  if (decodeEntities) {
+    for (let f = 0; f < fields.length; f++) {
+      const decoded = decodeHTMLEntities(fields[f])
+      if (decoded !== fields[f]) {
+        fields[f] = decoded
+        repaired = true
+      }
+    }
+  }
+
+  const endLine = raw.split("\n").length + recordLine - 1
+  return { record: { fields, line: recordLine, endLine, raw, repaired }, next: i, nextLine: line }
+}
+
+function startOffset(text: string): number {
+  return text.charCodeAt(0) === 0xfeff ? 1 : 0 // Skip BOM
+}
+
+// Streaming RFC 4180 tokenizer: yields one record at a time, honouring quoted
+// fields, doubled quotes ("") and delimiters or line breaks inside quotes.
+export function* tokenizeCSV(text: string, options: CSVParseOptions = {}): Generator<CSVRecord> {
+  let i = startOffset(text)
+  let line = 1
+
+  while (i < text.length) {
+    const { record, next, nextLine } = readRecord(text, i, line, options)
+    i = next
+    line = nextLine
+    if (record) yield record
+  }
+}
+
+// A quoted field running across a line break is taken for an unclosed quote when
+// the record comes out the wrong shape, or when the next physical line reads on
+// its own as a complete record: the quote then swallowed that row.
+function looksUnclosed(text: string, record: CSVRecord, start: number, fieldCount: number, options: CSVParseOptions): boolean {
+  if (record.endLine === record.line) return false
+  if (record.fields.length !== fieldCount) return true
+
+  const lineBreak = text.indexOf("\n", start)
+  if (lineBreak === -1) return false
+  const following = readRecord(text, lineBreak + 1, record.line + 1, options, true).record
+  return following !== null && following.fields.length === fieldCount
+}
+
+// Parses a whole CSV document. The first record is the header; records whose
+// field count does not match it are rejected instead of shifting columns.
+// After an unclosed quote only its first physical line is taken as the record,
+// and reading resumes on the next line so the rest of the file survives.
+export function parseCSV(text: string, options: CSVParseOptions = {}): CSVParseResult {
+  const header: string[] = []
+  const rows: CSVRecord[] = []
+  const rejected: CSVRejectedRecord[] = []
+  let repairedCount = 0
+  let isFirst = true
+  let i = startOffset(text)
+  let line = 1
+
+  while (i < text.length) {
+    let read = readRecord(text, i, line, options)
+    let reason: string | null = null
+
+    if (!isFirst && read.record && looksUnclosed(text, read.record, i, header.length, options)) {
+      read = readRecord(text, i, line, options, true)
+      reason = "Unclosed quote"
+    }
+    i = read.next
+    line = read.nextLine
+
+    const record = read.record
+    if (!record) continue
+
+    if (isFirst) {
+      header.push(...record.fields.map((f) => f.trim()))
+      isFirst = false
+      continue
+    }
+
+    if (record.fields.length !== header.length) {
+      const count = `${header.length} fields, found ${record.fields.length}`
+      rejected.push({
+        ...record,
+        reason: reason ? `${reason}: expected ${count}` : `Expected ${count}`,
+      })
+      continue
+    }
+
+    if (reason) record.repaired = true
+    if (record.repaired) repairedCount++
+    rows.push(record)
+  }
+
+  return { header, rows, rejected, repairedCount }
+}
+
+// Picks the candidate delimiter that splits the header line into the most fields
+export function detectDelimiter(text: string, candidates: string[] = [";", ","]): string {
+  let best = candidates[0]
+  let bestCount = 0
+  for (const candidate of candidates) {
+    const first = tokenizeCSV(text, { delimiter: candidate, decodeEntities: false }).next()
+    const count = first.done ? 0 : first.value.fields.length
+    if (count > bestCount) {
+      best = candidate
+      bestCount = count
+    }
+  }
+  return best
+}
@@ -0,0 +1,121 @@
+import { SOURCE_TIME_ZONE } from "./timezone"
+import { detectDelimiter, parseCSV, tokenizeCSV, type CSVRecord, type CSVRejectedRecord } from "./csv-parser"
+
+export interface ColumnSpec {
+  aliases: string[] // Header names accepted for this column, first one is canonical
+  required?: boolean
+}
+
+// Declarative description of a CSV layout: columns are resolved by header name,
+// so the export query can reorder or rename them without touching the parser.
+export interface CSVLayout<K extends string = string> {
+  name: string
+  delimiters: string[] // Candidates, detected from the header line
+  timeZone?: string // IANA zone of naive timestamps in the file
+  columns: Record<K, ColumnSpec>
+}
+
+export type ExportColumn =
+  | "id" | "title" | "date" | "template" | "context"
+  | "maintax" | "category" | "tags" | "geo" | "staff"
+
+export type TaxonomyColumn =
+  | "taxonomy" | "termId" | "parentTermId" | "name" | "slug" | "depth" | "path"
+
+export const EXPORT_LAYOUT: CSVLayout<ExportColumn> = {
+  name: "WordPress gc_export",
+  delimiters: [";", ","],
+  timeZone: SOURCE_TIME_ZONE,
+  columns: {
+    id: { aliases: ["ID", "post_id"] },
+    title: { aliases: ["titolo_articolo", "title", "post_title"] },
+    date: { aliases: ["data_pubblicazione", "date", "post_date"], required: true },
+    template: { aliases: ["template_articolo", "template"], required: true },
+    context: { aliases: ["context"] },
+    maintax: { aliases: ["maintax", "main_taxonomy"] },
+    category: { aliases: ["category", "categories"], required: true },
+    tags: { aliases: ["post_tag", "tags"] },
+    geo: { aliases: ["geo"], required: true },
+    staff: { aliases: ["staff", "author"] },
+  },
+}
+
+export const TAXONOMY_LAYOUT: CSVLayout<TaxonomyColumn> = {
+  name: "Taxonomy tree",
+  delimiters: [",", ";"],
+  columns: {
+    taxonomy: { aliases: ["taxonomy"], required: true },
+    termId: { aliases: ["term_id"], required: true },
+    parentTermId: { aliases: ["parent_term_id"], required: true },
+    name: { aliases: ["name"], required: true },
+    slug: { aliases: ["slug"], required: true },
+    depth: { aliases: ["depth"], required: true },
+    path: { aliases: ["path"], required: true },
+  },
+}
+
+export interface ColumnMapping<K extends string> {
+  indexes: Partial<Record<K, number>>
+  missing: string[] // Canonical names of required columns not found
+}
+
+export function resolveColumns<K extends string>(header: string[], layout: CSVLayout<K>): ColumnMapping<K> {
+  const normalized = header.map((h) => h.trim().toLowerCase())
+  const indexes: Partial<Record<K, number>> = {}
+  const missing: string[] = []
+
+  for (const key of Object.keys(layout.columns) as K[]) {
+    const spec = layout.columns[key]
+    const index = spec.aliases
+      .map((alias) => normalized.indexOf(alias.toLowerCase()))
+      .find((i) => i !== -1)
+
+    if (index !== undefined) {
+      indexes[key] = index
+    } else if (spec.required) {
+      missing.push(spec.aliases[0])
+    }
+  }
+
+  return { indexes, missing }
+}
+
+export function validateCSVHeader<K extends string>(csvText: string, layout: CSVLayout<K>): string[] {
+  const delimiter = detectDelimiter(csvText, layout.delimiters)
+  const first = tokenizeCSV(csvText, { delimiter }).next()
+  const header = first.done ? [] : first.value.fields
+  return resolveColumns(header, layout).missing
+}
+
+export interface MappedRecord<K extends string> {
+  record: CSVRecord
+  get: (column: K) => string // Empty string when the column is absent
+}
+
+export interface MappedCSV<K extends string> {
+  header: string[]
+  delimiter: string
+  rows: MappedRecord<K>[]
+  rejected: CSVRejectedRecord[]
+  repairedCount: number
+}
+
+export function readCSVWithLayout<K extends string>(csvText: string, layout: CSVLayout<K>): MappedCSV<K> {
+  const delimiter = detectDelimiter(csvText, layout.delimiters)
+  const { header, rows, rejected, repairedCount } = parseCSV(csvText, { delimiter })
+  const { indexes, missing } = resolveColumns(header, layout)
+
+  if (missing.length > 0) {
+    throw new Error(`${layout.name}: missing required column${missing.length > 1 ? "s" : ""} ${missing.join(", ")}`)
+  }
+
+  const mapped = rows.map((record) => ({
+    record,
+    get: (column: K) => {
+      const index = indexes[column]
+      return index === undefined ? "" : record.fields[index]
+    },
+  }))
+
+  return { header, delimiter, rows: mapped, rejected, repairedCount }
+}
@@ -0,0 +1,25 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getZonedWeekStart, zonedTimeToDate } from "./timezone"
+
+const PARIS = "Europe/Paris"
+
+test("zonedTimeToDate moves a time skipped by the spring jump forwards", () => {
+  // 02:00 → 03:00 on 2024-03-31, so 02:30 does not exist and becomes 03:30 CEST
+  const date = zonedTimeToDate({ year: 2024, month: 3, day: 31, hour: 2, minute: 30, second: 0 }, PARIS)
+  assert.equal(date.toISOString(), "2024-03-31T01:30:00.000Z")
+})
+
+test("zonedTimeToDate takes the first occurrence of a time repeated in autumn", () => {
+  // 03:00 → 02:00 on 2024-10-27, so 02:30 happens in CEST and again in CET
+  const date = zonedTimeToDate({ year: 2024, month: 10, day: 27, hour: 2, minute: 30, second: 0 }, PARIS)
+  assert.equal(date.toISOString(), "2024-10-27T00:30:00.000Z")
+})
+
+test("getZonedWeekStart keeps Sunday 23:30 Paris in the week it ends", () => {
+  assert.equal(getZonedWeekStart(new Date("2024-06-09T21:30:00Z"), PARIS), "2024-06-03")
+})
+
+test("getZonedWeekStart starts a new week at Monday 00:10 Paris, still Sunday in UTC", () => {
+  assert.equal(getZonedWeekStart(new Date("2024-06-09T22:10:00Z"), PARIS), "2024-06-10")
+})
@@ -0,0 +1,198 @@
+// Timestamps in the WordPress export are wall-clock times in the newsroom's zone
+export const SOURCE_TIME_ZONE = "Europe/Paris"
+
+export interface ZonedParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+// UTC offsets are multiples of 15 minutes and change on those boundaries, so the
+// offset is constant within a 15-minute bucket and can be cached per bucket.
+const OFFSET_BUCKET_MS = 15 * 60 * 1000
+const offsetCache = new Map<string, Map<number, number>>()
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+function getOffset(timestamp: number, timeZone: string): number {
+  let cache = offsetCache.get(timeZone)
+  if (!cache) {
+    cache = new Map()
+    offsetCache.set(timeZone, cache)
+  }
+
+  const bucket = Math.floor(timestamp / OFFSET_BUCKET_MS)
+  let offset = cache.get(bucket)
+  if (offset === undefined) {
+    const start = bucket * OFFSET_BUCKET_MS
+    const parts: Record<string, number> = {}
+    for (const part of getFormatter(timeZone).formatToParts(new Date(start))) {
+      if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10)
+    }
+    offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - start
+    cache.set(bucket, offset)
+  }
+  return offset
+}
+
+// Wall-clock fields of an instant as seen in the given time zone
+export function getZonedParts(date: Date, timeZone: string = SOURCE_TIME_ZONE): ZonedParts {
+  const shifted = new Date(date.getTime() + getOffset(date.getTime(), timeZone))
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    second: shifted.getUTCSeconds(),
+  }
+}
+
+// Converts wall-clock fields in the given zone to an instant. Times skipped by a
+// DST jump resolve forwards; repeated times resolve to their first occurrence.
+export function zonedTimeToDate(parts: ZonedParts, timeZone: string = SOURCE_TIME_ZONE): Date {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  const day = 24 * 3600 * 1000
+  const offsetBefore = getOffset(wallClock - day, timeZone)
+  const offsetAfter = getOffset(wallClock + day, timeZone)
+
+  const valid = [wallClock - offsetBefore, wallClock - offsetAfter]
+    .filter((t) => getOffset(t, timeZone) === wallClock - t)
+    .sort((a, b) => a - b)
+
+  return new Date(valid.length > 0 ? valid[0] : wallClock - offsetBefore)
+}
+
+// First and last instant of the calendar day containing the instant, in the given zone
+export function startOfZonedDay(date: Date, timeZone: string = SOURCE_TIME_ZONE): Date {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  return zonedTimeToDate({ year, month, day, hour: 0, minute: 0, second: 0 }, timeZone)
+}
+
+export function endOfZonedDay(date: Date, timeZone: string = SOURCE_TIME_ZONE): Date {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  const nextDay = zonedTimeToDate({ year, month, day: day + 1, hour: 0, minute: 0, second: 0 }, timeZone)
+  return new Date(nextDay.getTime() - 1)
+}
+
+// Moves an instant by whole months, keeping its wall-clock time in the given zone.
+// Days past the end of the target month roll over, as with Date.setMonth.
+export function addZonedMonths(date: Date, months: number, timeZone: string = SOURCE_TIME_ZONE): Date {
+  const parts = getZonedParts(date, timeZone)
+  return zonedTimeToDate({ ...parts, month: parts.month + months }, timeZone)
+}
+
+// Calendar widgets pick days as local midnights in the viewer's zone. These map such
+// a day to the start of the same calendar day in the given zone, and back.
+export function calendarDayToZoned(day: Date, timeZone: string = SOURCE_TIME_ZONE): Date {
+  return zonedTimeToDate(
+    { year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate(), hour: 0, minute: 0, second: 0 },
+    timeZone
+  )
+}
+
+export function zonedToCalendarDay(date: Date, timeZone: string = SOURCE_TIME_ZONE): Date {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  return new Date(year, month - 1, day)
+}
+
+// Calendar keys ("YYYY-MM-DD") are plain dates, so they are handled in UTC
+// to stay independent of the viewer's zone.
+export function toDateKey(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().split("T")[0]
+}
+
+export function addDaysToKey(key: string, days: number): string {
+  const [year, month, day] = key.split("-").map(Number)
+  return toDateKey(year, month, day + days)
+}
+
+export function formatZonedDate(date: Date, timeZone: string = SOURCE_TIME_ZONE): string {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  return toDateKey(year, month, day)
+}
+
+// Monday of the ISO week containing the instant, in the given zone
+export function getZonedWeekStart(date: Date, timeZone: string = SOURCE_TIME_ZONE): string {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  return toDateKey(year, month, day - (weekday === 0 ? 6 : weekday - 1))
+}
+
+// Day of the week in the given zone, 0 = Monday … 6 = Sunday
+export function getZonedWeekday(date: Date, timeZone: string = SOURCE_TIME_ZONE): number {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  return (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7
+}
+
+export type Granularity = "day" | "week" | "month" | "quarter" | "year"
+
+// Key of the calendar bucket (day, ISO week, month, quarter or year) containing the
+// instant in the given zone, as the "YYYY-MM-DD" of the bucket's first day
+export function getBucketStart(date: Date, granularity: Granularity, timeZone: string = SOURCE_TIME_ZONE): string {
+  const { year, month } = getZonedParts(date, timeZone)
+  switch (granularity) {
+    case "day":
+      return formatZonedDate(date, timeZone)
+    case "week":
+      return getZonedWeekStart(date, timeZone)
+    case "month":
+      return toDateKey(year, month, 1)
+    case "quarter":
+      return toDateKey(year, month - ((month - 1) % 3), 1)
+    case "year":
+      return toDateKey(year, 1, 1)
+  }
+}
+
+export function nextBucketStart(key: string, granularity: Granularity): string {
+  const [year, month, day] = key.split("-").map(Number)
+  switch (granularity) {
+    case "day":
+      return toDateKey(year, month, day + 1)
+    case "week":
+      return toDateKey(year, month, day + 7)
+    case "month":
+      return toDateKey(year, month + 1, 1)
+    case "quarter":
+      return toDateKey(year, month + 3, 1)
+    case "year":
+      return toDateKey(year + 1, 1, 1)
+  }
+}
+
+export function formatBucketLabel(key: string, granularity: Granularity): string {
+  const [year, month] = key.split("-").map(Number)
+  switch (granularity) {
+    case "month":
+      return key.slice(0, 7)
+    case "quarter":
+      return `${year} Q${Math.floor((month - 1) / 3) + 1}`
+    case "year":
+      return String(year)
+    default:
+      return key
+  }
+}